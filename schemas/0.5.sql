@@ -0,0 +1,59 @@
+-- ClickHouse: Up/Down 周期数据（CYCLE_STORAGE=clickhouse），timestamp 均为毫秒
+
+CREATE TABLE IF NOT EXISTS up_down_cycles
+(
+    `slug`                      String,
+    `start_timestamp`           UInt64,
+    `price_to_beat`             Nullable(Float64),
+    `price_to_beat_source`      LowCardinality(String),
+    `price_to_beat_confirmed`   UInt8,
+    `chainlink_tracking`        String,
+    `created_at`                DateTime DEFAULT now()
+) ENGINE = ReplacingMergeTree
+ORDER BY slug;
+
+CREATE TABLE IF NOT EXISTS up_down_price_records
+(
+    `slug`          String,
+    `timestamp`     UInt64,
+    `prices`        Map(String, Float64)
+) ENGINE = MergeTree
+ORDER BY (slug, timestamp);
+
+CREATE TABLE IF NOT EXISTS up_down_chainlink_prices
+(
+    `slug`          String,
+    `timestamp`     UInt64,
+    `price`         Float64
+) ENGINE = MergeTree
+ORDER BY (slug, timestamp);
+
+CREATE TABLE IF NOT EXISTS up_down_aggregated_prices
+(
+    `slug`          String,
+    `timestamp`     UInt64,
+    `price`         Float64,
+    `median_price`  Nullable(Float64),
+    `vwap_price`    Nullable(Float64),
+    `hybrid_price`  Nullable(Float64)
+) ENGINE = MergeTree
+ORDER BY (slug, timestamp);
+
+CREATE TABLE IF NOT EXISTS up_down_bids
+(
+    `slug`              String,
+    `type`              LowCardinality(String),
+    `outcome`           LowCardinality(String),
+    `price`             Float64,
+    `shares`            Float64,
+    `timestamp`         UInt64,
+    `create_order_cost` Nullable(UInt32),
+    `post_order_cost`   Nullable(UInt32),
+    `exit_reason`       LowCardinality(String),
+    `exit_price`        Nullable(Float64),
+    `exit_shares`       Nullable(Float64),
+    `exit_pnl`          Nullable(Float64)
+) ENGINE = MergeTree
+ORDER BY (slug, type, timestamp);
+
+CREATE TABLE IF NOT EXISTS up_down_simulated_bids AS up_down_bids;
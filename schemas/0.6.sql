@@ -0,0 +1,11 @@
+-- ClickHouse: Up/Down 周期事件（CYCLE_EVENT_SINK=clickhouse），timestamp 为毫秒
+
+CREATE TABLE IF NOT EXISTS up_down_cycle_events
+(
+    `slug`          String,
+    `timestamp`     UInt64,
+    `type`          LowCardinality(String),   -- tick / signal / order / fill
+    `strategy`      LowCardinality(String),
+    `data`          String
+) ENGINE = MergeTree
+ORDER BY (slug, timestamp);
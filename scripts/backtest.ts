@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadBacktestCycles } from '../src/backtest/cycle-loader';
+import { runBacktest } from '../src/backtest/backtest-runner';
+import { IBacktestCycle } from '../src/backtest/interfaces';
+import { getDefaultStrategyConfig, StrategyConfigLoader } from '../src/bots/strategys/strategy-config';
+import { getStrategyConfigPath, UP_DOWN_ASSETS } from '../src/bots/up-down-assets';
+
+/**
+ * 用真实策略类回放 bid-results 下的周期数据
+ * 用法: ts-node scripts/backtest.ts [bid-results目录] [--trades]
+ * 按 资产-周期 分组回放，策略参数读取各自的配置文件（与实盘一致），STRATEGY_CONFIG_PATH 可覆盖
+ */
+function main() {
+    const args = process.argv.slice(2);
+    const showTrades = args.includes('--trades');
+    const bidResultsDir = args.find(arg => !arg.startsWith('--')) ?? path.join(__dirname, '..', 'bid-results');
+
+    console.log(`正在加载周期数据: ${bidResultsDir}`);
+    const cycles = loadBacktestCycles(bidResultsDir);
+    console.log(`共找到 ${cycles.length} 个周期\n`);
+
+    if (cycles.length === 0) {
+        console.log('没有数据可回测');
+        return;
+    }
+
+    const groups = new Map<string, IBacktestCycle[]>();
+    for (const cycle of cycles) {
+        const key = `${cycle.asset}-${cycle.interval}`;
+        groups.set(key, [...(groups.get(key) ?? []), cycle]);
+    }
+
+    for (const [key, groupCycles] of groups) {
+        const { asset, interval } = groupCycles[0];
+        const configPath = process.env.STRATEGY_CONFIG_PATH || getStrategyConfigPath(UP_DOWN_ASSETS[asset], interval);
+        const strategyConfig = fs.existsSync(configPath) ? new StrategyConfigLoader(configPath).load() : getDefaultStrategyConfig();
+
+        // 策略触发时会打印日志，回测时静默
+        const log = console.log;
+        console.log = () => {};
+        const reports = runBacktest(groupCycles, { strategyConfig });
+        console.log = log;
+
+        console.log('='.repeat(100));
+        console.log(`策略回测结果 - ${key} (${groupCycles.length} 个周期, ${configPath})`);
+        console.log('='.repeat(100));
+
+        for (const report of reports) {
+            console.log(`\n[${report.type}]`);
+            console.log(`  交易数: ${report.trades.length}`);
+            console.log(`  胜率: ${(report.winRate * 100).toFixed(2)}% (${report.wins}/${report.trades.length})`);
+            console.log(`  提前卖出: ${report.exits} | 卖出PNL: $${report.exitPnl.toFixed(4)}`);
+            console.log(`  总PNL: $${report.pnl.toFixed(4)}`);
+            console.log(`  ROI: ${(report.roi * 100).toFixed(2)}%`);
+
+            if (showTrades) {
+                for (const trade of report.trades) {
+                    const time = new Date(trade.timestamp).toISOString();
+                    const exit = trade.exit ? ` | ${trade.exit.reason} @ ${trade.exit.price.toFixed(3)}` : '';
+                    console.log(`    ${trade.slug} | ${time} | ${trade.outcome} @ ${trade.price.toFixed(3)}${exit} | ${trade.won ? 'WIN ' : 'LOSS'} | PNL: ${trade.pnl.toFixed(4)}`);
+                }
+            }
+        }
+        console.log();
+    }
+}
+
+main();
@@ -0,0 +1,40 @@
+import * as path from 'path';
+import { loadBacktestCycles } from '../src/backtest/cycle-loader';
+import { compareAggregationModes } from '../src/backtest/tracking-error';
+
+/**
+ * 对比各聚合方式（median / vwap / hybrid）相对 Chainlink 的跟踪误差
+ * 用法: ts-node scripts/tracking-error.ts [bid-results目录]
+ * 需要实盘运行时记录的 *-aggregated-mode-prices.json
+ */
+function main() {
+    const bidResultsDir = process.argv[2] ?? path.join(__dirname, '..', 'bid-results');
+
+    console.log(`正在加载周期数据: ${bidResultsDir}`);
+    const cycles = loadBacktestCycles(bidResultsDir).filter((cycle) => cycle.aggregatedModePrices.length > 0);
+    console.log(`共找到 ${cycles.length} 个包含聚合方式价格的周期\n`);
+
+    if (cycles.length === 0) {
+        console.log('没有数据可对比');
+        return;
+    }
+
+    const results = Object.entries(compareAggregationModes(cycles)).sort((a, b) => a[1].rmse - b[1].rmse);
+
+    console.log('='.repeat(70));
+    console.log('聚合方式'.padEnd(10) + '样本数'.padStart(10) + '偏差'.padStart(14) + 'MAE'.padStart(14) + 'RMSE'.padStart(14));
+    console.log('='.repeat(70));
+    for (const [mode, error] of results) {
+        console.log(
+            mode.padEnd(12) +
+            `${error.samples}`.padStart(10) +
+            error.bias.toFixed(2).padStart(16) +
+            error.meanAbsError.toFixed(2).padStart(16) +
+            error.rmse.toFixed(2).padStart(16)
+        );
+    }
+    console.log('='.repeat(70));
+    console.log(`\n跟踪误差最小: ${results[0][0]}`);
+}
+
+main();
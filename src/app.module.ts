@@ -6,6 +6,8 @@ import { PolymarketApiService } from './services/polymarket-api.service';
 import { NodeService } from './services/node.service';
 import { PolymarketTrader } from './bots/polymarket-trader';
 import { BTC5MExecutor } from './bots/btc-5m-executor';
+import { BTC15MExecutor } from './bots/btc-15m-executor';
+import { UpDownExecutorManager } from './bots/up-down-executor-manager';
 
 @Module({
     imports: [
@@ -17,6 +19,8 @@ import { BTC5MExecutor } from './bots/btc-5m-executor';
         NodeService,
         PolymarketTrader,
         BTC5MExecutor,
+        BTC15MExecutor,
+        UpDownExecutorManager,
     ],
 })
 export class AppModule { }
@@ -0,0 +1,176 @@
+import { OrderSummary, Side } from '@polymarket/clob-client';
+import { PositionManager } from '../bots/position-manager';
+import { BaseStrategy } from '../bots/strategys/base.strategy';
+import { MarketContext } from '../bots/market-context';
+import { ChainlinkTrackingMonitor, ChainlinkTrackingStats } from '../bots/chainlink-tracking-monitor';
+import { ChainlinkPrediction, ChainlinkPredictor } from '../bots/chainlink-predictor';
+import { createStrategys } from '../bots/strategys/strategy-registry';
+import { getDefaultStrategyConfig, StrategyConfig } from '../bots/strategys/strategy-config';
+import { buildBacktestEvents, getBacktestCycleDurationMs } from './cycle-loader';
+import { IBacktestCycle, IBacktestPrice, IBacktestTrade } from './interfaces';
+
+// 周期文件没有记录盘口深度，回放时按最优价全部成交
+const BACKTEST_BOOK_SIZE = '1000000';
+
+/**
+ * 回测 executor
+ *
+ * 与 BTC15MExecutor 一样实现 MarketContext，按时间顺序回放一个周期的数据，并在与实盘相同的时机调用 checkSignal()：
+ * - 盘口 price_change（对应 onOrderBookEventUpdate）
+ * - 聚合价格更新（对应 onBTCAggregatedPriceUpdate）
+ * 模拟成交交给 PositionManager，与实盘一样每次检查信号后检查 exitPolicy
+ */
+export class BacktestExecutor implements MarketContext {
+    public outcomes: string[];
+
+    private currentTimestamp: number = 0;
+    private historyBTCPrices: IBacktestPrice[] = [];
+    private latestMarketPrices: Record<string, number> = {};
+    private historyBTCAggregatedPrices: IBacktestPrice[] = [];
+    private strategys: BaseStrategy[] = [];
+    private trades: IBacktestTrade[] = [];
+    private chainlinkTrackingMonitor = new ChainlinkTrackingMonitor();
+    private chainlinkPredictor = new ChainlinkPredictor();
+    private positionManager = new PositionManager(this, null);
+
+    public constructor(
+        private readonly cycle: IBacktestCycle,
+        private readonly options: { strategyConfig?: StrategyConfig; outcomes?: string[] } = {},
+    ) {
+        this.outcomes = options.outcomes ?? ['Up', 'Down'];
+    }
+
+    public getCycleStartTimestamp(): number {
+        return this.cycle.startTimestamp * 1000;
+    }
+
+    public getCycleDurationMs(): number {
+        return getBacktestCycleDurationMs(this.cycle);
+    }
+
+    /**
+     * 使用回放时间而不是 Date.now()，保证回测结果确定
+     */
+    public getElapsedMs(): number {
+        return this.currentTimestamp - this.getCycleStartTimestamp();
+    }
+
+    /**
+     * 周期文件中的 Chainlink 价格已包含实盘解析的基准价格
+     */
+    public isBaselineConfirmed(): boolean {
+        return true;
+    }
+
+    public getChainlinkPrices(): readonly IBacktestPrice[] {
+        return this.historyBTCPrices;
+    }
+
+    public getAggregatedPrices(): readonly IBacktestPrice[] | null {
+        return this.historyBTCAggregatedPrices.length > 0 ? this.historyBTCAggregatedPrices : null;
+    }
+
+    public getChainlinkTrackingStats(): ChainlinkTrackingStats | null {
+        return this.chainlinkTrackingMonitor.getLatestStats();
+    }
+
+    public getChainlinkPrediction(): ChainlinkPrediction | null {
+        if (this.historyBTCPrices.length === 0) {
+            return null;
+        }
+
+        const priceToBeat = this.historyBTCPrices[this.historyBTCPrices.length - 1].price;
+        const settlementTimestamp = this.getCycleStartTimestamp() + this.getCycleDurationMs();
+        return this.chainlinkPredictor.predict(this.currentTimestamp, priceToBeat, settlementTimestamp, this.chainlinkTrackingMonitor.getLatestStats());
+    }
+
+    public getOutcomePrices(): Readonly<Record<string, number>> {
+        return this.latestMarketPrices;
+    }
+
+    /**
+     * 周期文件只记录了各 outcome 的 best ask，没有完整订单簿：
+     * BUY 返回 best ask；SELL 的 best bid 由另一 outcome 的 best ask 反转得到（1 - ask），与只订阅一个 outcome 时一致
+     */
+    public getOrderBookSnapshot(outcomeIndex: number, side: Side): OrderSummary[] | null {
+        const outcome = side === Side.BUY ? this.outcomes[outcomeIndex] : this.outcomes[1 - outcomeIndex];
+        const ask = this.latestMarketPrices[outcome];
+        if (!ask || !Number.isFinite(ask) || ask <= 0 || ask >= 1) {
+            return null;
+        }
+
+        const price = side === Side.BUY ? ask : Math.round((1 - ask) * 10000) / 10000;
+        return [{ price: `${price}`, size: BACKTEST_BOOK_SIZE }];
+    }
+
+    /**
+     * 回放整个周期，返回所有策略的模拟成交
+     */
+    public run(): IBacktestTrade[] {
+        this.strategys = createStrategys(this, this.options.strategyConfig ?? getDefaultStrategyConfig());
+
+        for (const event of buildBacktestEvents(this.cycle)) {
+            this.currentTimestamp = event.timestamp;
+
+            if (event.type === 'btc-price') {
+                this.historyBTCPrices.unshift(event.data);
+                this.chainlinkTrackingMonitor.addChainlinkPrice(event.data);
+                this.chainlinkPredictor.addChainlinkPrice(event.data);
+            } else if (event.type === 'btc-aggregated-price') {
+                this.historyBTCAggregatedPrices.unshift(event.data);
+                this.chainlinkTrackingMonitor.addAggregatedPrice(event.data);
+                this.chainlinkPredictor.addAggregatedPrice(event.data);
+                this.checkStrategys(event.timestamp);
+                this.positionManager.checkExits();
+            } else {
+                const { timestamp, ...prices } = event.data;
+                this.latestMarketPrices = prices;
+                this.checkStrategys(timestamp);
+                this.positionManager.checkExits();
+            }
+        }
+
+        return this.trades;
+    }
+
+    private checkStrategys(timestamp: number) {
+        for (const strategy of this.strategys) {
+            const [isTrigger, outcomeIndex] = strategy.checkSignal();
+            if (isTrigger) {
+                this.simulateBid(outcomeIndex, strategy, timestamp);
+            }
+        }
+    }
+
+    /**
+     * 以当前 best ask 成交，盘口缺失时无法成交（实盘 simulateBid 同样会失败）
+     */
+    private simulateBid(outcomeIndex: number, strategy: BaseStrategy, timestamp: number) {
+        const outcome = this.outcomes[outcomeIndex];
+        const price = this.latestMarketPrices[outcome];
+        if (!price || !Number.isFinite(price) || price <= 0 || price >= 1) {
+            return;
+        }
+
+        const amount = strategy.stake;
+        const trade: IBacktestTrade = {
+            slug: this.cycle.slug,
+            type: strategy.type,
+            outcome,
+            price,
+            shares: amount / price,
+            amount,
+            timestamp,
+        };
+        this.trades.push(trade);
+        this.positionManager.open({
+            strategy,
+            outcomeIndex,
+            tokenId: outcome,
+            shares: trade.shares,
+            entryPrice: price,
+            simulated: true,
+            record: trade,
+        });
+    }
+}
@@ -0,0 +1,70 @@
+import { computePayout } from '../bots/cycle-settlement';
+import { StrategyType } from '../bots/strategys/base.strategy';
+import { StrategyConfig } from '../bots/strategys/strategy-config';
+import { BacktestExecutor } from './backtest-executor';
+import { getBacktestCycleDurationMs } from './cycle-loader';
+import { IBacktestCycle, IBacktestStrategyReport, IBacktestTrade } from './interfaces';
+
+/**
+ * 根据 Chainlink 价格判断周期结果
+ * 结束价格 >= 开盘价格（price to beat）为 Up，否则为 Down
+ * @returns 胜出的 outcome，数据不足时返回 null
+ */
+export function resolveCycleOutcome(cycle: IBacktestCycle): 'Up' | 'Down' | null {
+    const startMs = cycle.startTimestamp * 1000;
+    const endMs = startMs + getBacktestCycleDurationMs(cycle);
+
+    const prices = cycle.btcPrices
+        .filter((p) => p.timestamp >= startMs && p.timestamp <= endMs)
+        .sort((a, b) => a.timestamp - b.timestamp);
+    if (prices.length < 2) {
+        return null;
+    }
+
+    const openPrice = prices[0].price;
+    const closePrice = prices[prices.length - 1].price;
+    return closePrice >= openPrice ? 'Up' : 'Down';
+}
+
+/**
+ * 回放所有周期，按策略汇总成交、胜率、PnL 和 ROI；提前卖出的份额按卖出价计入 PnL
+ */
+export function runBacktest(cycles: IBacktestCycle[], options: { strategyConfig?: StrategyConfig } = {}): IBacktestStrategyReport[] {
+    const tradesByType = new Map<StrategyType, IBacktestTrade[]>();
+
+    for (const cycle of cycles) {
+        const winner = resolveCycleOutcome(cycle);
+        if (!winner) {
+            continue;
+        }
+
+        const trades = new BacktestExecutor(cycle, options).run();
+        for (const trade of trades) {
+            trade.won = trade.outcome.toLowerCase() === winner.toLowerCase();
+            trade.pnl = computePayout(trade, trade.won) - trade.amount;
+
+            if (!tradesByType.has(trade.type)) {
+                tradesByType.set(trade.type, []);
+            }
+            tradesByType.get(trade.type).push(trade);
+        }
+    }
+
+    return Array.from(tradesByType.entries()).map(([type, trades]) => {
+        const wins = trades.filter((t) => t.won).length;
+        const exits = trades.filter((t) => t.exit);
+        const pnl = trades.reduce((sum, t) => sum + t.pnl, 0);
+        const cost = trades.reduce((sum, t) => sum + t.amount, 0);
+
+        return {
+            type,
+            trades,
+            wins,
+            winRate: trades.length > 0 ? wins / trades.length : 0,
+            exits: exits.length,
+            exitPnl: exits.reduce((sum, t) => sum + t.exit.pnl, 0),
+            pnl,
+            roi: cost > 0 ? pnl / cost : 0,
+        };
+    });
+}
@@ -0,0 +1,85 @@
+import * as Fs from 'fs';
+import * as Path from 'path';
+import { UP_DOWN_ASSETS, UP_DOWN_INTERVAL_SECONDS, UpDownInterval } from '../bots/up-down-assets';
+import { IBacktestCycle, IBacktestEvent } from './interfaces';
+
+// {asset}-updown-{interval}-{startTimestamp}-price-records.json，资产和周期与实盘 executor 支持的一致
+const CYCLE_FILE_REGEX = new RegExp(
+    `^((${Object.keys(UP_DOWN_ASSETS).join('|')})-updown-(${Object.keys(UP_DOWN_INTERVAL_SECONDS).join('|')})-(\\d+))-price-records\\.json$`,
+);
+
+function readJson<T>(file: string, fallback: T): T {
+    if (!Fs.existsSync(file)) {
+        return fallback;
+    }
+
+    return JSON.parse(Fs.readFileSync(file, 'utf-8')) ?? fallback;
+}
+
+/**
+ * 加载 bid-results 目录下的周期文件
+ * 每个周期需要 *-price-records.json 和 *-btc-prices.json，*-btc-aggregated-prices.json / *-aggregated-mode-prices.json 可选
+ */
+export function loadBacktestCycles(bidResultsDir: string): IBacktestCycle[] {
+    const cycles: IBacktestCycle[] = [];
+
+    for (const file of Fs.readdirSync(bidResultsDir)) {
+        const match = file.match(CYCLE_FILE_REGEX);
+        if (!match) {
+            continue;
+        }
+
+        const slug = match[1];
+        const btcPricesFile = Path.join(bidResultsDir, `${slug}-btc-prices.json`);
+        if (!Fs.existsSync(btcPricesFile)) {
+            continue;
+        }
+
+        try {
+            cycles.push({
+                slug,
+                asset: match[2],
+                interval: match[3] as UpDownInterval,
+                startTimestamp: Number(match[4]),
+                priceRecords: readJson(Path.join(bidResultsDir, file), []),
+                btcPrices: readJson(btcPricesFile, []),
+                btcAggregatedPrices: readJson(Path.join(bidResultsDir, `${slug}-btc-aggregated-prices.json`), []),
+                aggregatedModePrices: readJson(Path.join(bidResultsDir, `${slug}-aggregated-mode-prices.json`), []),
+            });
+        } catch (error) {
+            console.warn(`[Backtest] Skip broken cycle ${slug}: ${error.message}`);
+        }
+    }
+
+    return cycles.sort((a, b) => a.startTimestamp - b.startTimestamp);
+}
+
+/**
+ * 周期长度 (ms)，由 slug 中的周期决定
+ */
+export function getBacktestCycleDurationMs(cycle: IBacktestCycle): number {
+    return UP_DOWN_INTERVAL_SECONDS[cycle.interval] * 1000;
+}
+
+/**
+ * 将周期数据合并为按时间排序的事件流
+ * 同一时间戳的顺序：Chainlink -> 聚合价格 -> 盘口，保证策略检查时 BTC 价格已就绪
+ */
+export function buildBacktestEvents(cycle: IBacktestCycle): IBacktestEvent[] {
+    const order: Record<IBacktestEvent['type'], number> = {
+        'btc-price': 0,
+        'btc-aggregated-price': 1,
+        'price-record': 2,
+    };
+
+    const events: IBacktestEvent[] = [
+        ...cycle.btcPrices.map((data) => ({ type: 'btc-price' as const, timestamp: data.timestamp, data })),
+        ...cycle.btcAggregatedPrices.map((data) => ({ type: 'btc-aggregated-price' as const, timestamp: data.timestamp, data })),
+        ...cycle.priceRecords.map((data) => ({ type: 'price-record' as const, timestamp: data.timestamp, data })),
+    ];
+
+    // 数组是稳定排序，原文件为新 -> 旧，先反转成旧 -> 新
+    return events
+        .reverse()
+        .sort((a, b) => a.timestamp - b.timestamp || order[a.type] - order[b.type]);
+}
@@ -0,0 +1,66 @@
+import { PositionExit } from '../bots/position-manager';
+import { StrategyType } from '../bots/strategys/base.strategy';
+import { UpDownInterval } from '../bots/up-down-assets';
+import { AggregationMode } from '../libs/aggregated-price/interfaces';
+
+/** BTC 价格点（Chainlink 或聚合价格） */
+export interface IBacktestPrice {
+    timestamp: number;
+    price: number;
+}
+
+/** Polymarket 盘口价格记录：outcome -> best ask */
+export interface IBacktestPriceRecord {
+    timestamp: number;
+    [outcome: string]: number;
+}
+
+/** 同一时刻各聚合方式的价格 */
+export interface IAggregatedModePrice {
+    timestamp: number;
+    modePrices: Record<AggregationMode, number | null>;
+}
+
+/** 一个周期的回放数据，对应 BTC15MExecutor.onInterval() 写出的文件 */
+export interface IBacktestCycle {
+    slug: string;
+    asset: string;                          // 标的资产 symbol，slug 前缀
+    interval: UpDownInterval;               // 周期长度
+    startTimestamp: number;                 // 周期开始时间 (秒)
+    priceRecords: IBacktestPriceRecord[];   // 新 -> 旧，与实盘 unshift 顺序一致
+    btcPrices: IBacktestPrice[];
+    btcAggregatedPrices: IBacktestPrice[];
+    aggregatedModePrices: IAggregatedModePrice[];
+}
+
+/** 回放事件，按 timestamp 排序后依次喂给 BacktestExecutor */
+export type IBacktestEvent =
+    | { type: 'btc-price'; timestamp: number; data: IBacktestPrice }
+    | { type: 'btc-aggregated-price'; timestamp: number; data: IBacktestPrice }
+    | { type: 'price-record'; timestamp: number; data: IBacktestPriceRecord };
+
+/** 回测成交 */
+export interface IBacktestTrade {
+    slug: string;
+    type: StrategyType;
+    outcome: string;
+    price: number;
+    shares: number;
+    amount: number;
+    timestamp: number;
+    exit?: PositionExit;    // 持仓期间触发 exitPolicy 提前卖出
+    won?: boolean;
+    pnl?: number;           // 含提前卖出所得
+}
+
+/** 单个策略的回测统计 */
+export interface IBacktestStrategyReport {
+    type: StrategyType;
+    trades: IBacktestTrade[];
+    wins: number;
+    winRate: number;
+    exits: number;          // 提前卖出的成交数
+    exitPnl: number;        // 提前卖出部分的已实现盈亏
+    pnl: number;
+    roi: number;
+}
@@ -0,0 +1,39 @@
+import { computeTrackingError, TrackingError } from '../bots/tracking-error';
+import { AGGREGATION_MODES } from '../libs/aggregated-price/aggregated-price-service';
+import { AggregationMode } from '../libs/aggregated-price/interfaces';
+import { IBacktestCycle } from './interfaces';
+
+/**
+ * 对比各聚合方式在所有周期上的跟踪误差，样本按周期合并
+ */
+export function compareAggregationModes(cycles: IBacktestCycle[]): Record<AggregationMode, TrackingError> {
+    const result = {} as Record<AggregationMode, TrackingError>;
+
+    for (const mode of AGGREGATION_MODES) {
+        let samples = 0;
+        let sumError = 0;
+        let sumAbsError = 0;
+        let sumSquaredError = 0;
+
+        for (const cycle of cycles) {
+            const predicted = cycle.aggregatedModePrices
+                .filter((item) => item.modePrices[mode] !== null && item.modePrices[mode] !== undefined)
+                .map((item) => ({ timestamp: item.timestamp, price: item.modePrices[mode] }));
+            const error = computeTrackingError(predicted, cycle.btcPrices);
+
+            samples += error.samples;
+            sumError += error.bias * error.samples;
+            sumAbsError += error.meanAbsError * error.samples;
+            sumSquaredError += error.rmse * error.rmse * error.samples;
+        }
+
+        result[mode] = {
+            samples,
+            bias: samples > 0 ? sumError / samples : 0,
+            meanAbsError: samples > 0 ? sumAbsError / samples : 0,
+            rmse: samples > 0 ? Math.sqrt(sumSquaredError / samples) : 0,
+        };
+    }
+
+    return result;
+}
@@ -1,18 +1,19 @@
 import { Injectable } from '@nestjs/common';
 import { PolymarketApiService } from '../services/polymarket-api.service';
-import { BinanceMarketStream } from '../libs/binance-market-stream';
+import { PolymarketTrader } from './polymarket-trader';
+import { UP_DOWN_ASSETS } from './up-down-assets';
+import { UpDownExecutor } from './up-down-executor';
 
 @Injectable()
-export class BTC5MExecutor {
-    private binanceMarketStream: BinanceMarketStream = null;
-
+export class BTC5MExecutor extends UpDownExecutor {
     public constructor(
-        private readonly polymarketApiService: PolymarketApiService,
+        polymarketApiService: PolymarketApiService,
+        polymarketTrader: PolymarketTrader,
     ) {
-        this.binanceMarketStream = new BinanceMarketStream();
-    }
-
-    public async start() {
-        this.binanceMarketStream.start();
+        super(polymarketApiService, polymarketTrader, {
+            command: 'btc-5m-executor',
+            asset: UP_DOWN_ASSETS.btc,
+            interval: '5m',
+        });
     }
 }
@@ -0,0 +1,126 @@
+import { ChainlinkTrackingStats } from './chainlink-tracking-monitor';
+import { PricePoint } from './market-context';
+import { computeUpProbability, realizedVolatility } from './strategys/fair-value';
+
+/**
+ * Chainlink 价格预测
+ * 结算以周期结束时的 Chainlink 价格 >= priceToBeat 判定 Up
+ */
+export interface ChainlinkPrediction {
+    timestamp: number;          // 预测时刻 (ms)
+    nextTimestamp: number;      // 下一次 Chainlink 价格的预计时间 (ms)
+    nextPrice: number;          // 预测的下一次 Chainlink 价格
+    priceToBeat: number;
+    volatility: number;         // Chainlink 价格每秒波动的标准差 ($)
+    settlementStdDev: number;   // 结算价格相对 nextPrice 的标准差 ($)
+    upProbability: number;      // 结算时 Chainlink 价格 >= priceToBeat 的概率（公允价值）
+}
+
+export interface ChainlinkPredictorOptions {
+    printIntervalMs?: number;           // Chainlink 推送间隔，默认 1 秒
+    volatilityWindowMs?: number;        // 波动率估计窗口，默认 5 分钟
+    minVolatilitySamples?: number;      // 波动率最少样本数，不足时不预测，默认 10
+    aggregatedRetentionMs?: number;     // 聚合价格保留时长，需覆盖最大领先时间，默认 10 秒
+}
+
+/**
+ * Chainlink 领先-滞后预测
+ *
+ * - 下一次 Chainlink 价格: 聚合价格领先 Chainlink leadMs，取 (nextTimestamp - leadMs) 时刻的聚合价格，扣除平移后的偏差
+ * - 结算概率: 假设 Chainlink 价格为无漂移随机游走，剩余时间内方差 = 波动率² × 剩余秒数 + 跟踪误差²
+ *
+ * 价格数据不随周期重置，周期开始时也能直接估计波动率
+ */
+export class ChainlinkPredictor {
+    private chainlinkPrices: PricePoint[] = [];     // 旧 -> 新
+    private aggregatedPrices: PricePoint[] = [];    // 旧 -> 新
+
+    private readonly printIntervalMs: number;
+    private readonly volatilityWindowMs: number;
+    private readonly minVolatilitySamples: number;
+    private readonly aggregatedRetentionMs: number;
+
+    public constructor(options: ChainlinkPredictorOptions = {}) {
+        this.printIntervalMs = options.printIntervalMs ?? 1000;
+        this.volatilityWindowMs = options.volatilityWindowMs ?? 5 * 60 * 1000;
+        this.minVolatilitySamples = options.minVolatilitySamples ?? 10;
+        this.aggregatedRetentionMs = options.aggregatedRetentionMs ?? 10 * 1000;
+    }
+
+    public addChainlinkPrice(point: PricePoint) {
+        this.chainlinkPrices.push({ timestamp: point.timestamp, price: point.price });
+
+        const expiredBefore = point.timestamp - this.volatilityWindowMs;
+        this.chainlinkPrices = this.chainlinkPrices.filter((item) => item.timestamp >= expiredBefore);
+    }
+
+    public addAggregatedPrice(point: PricePoint) {
+        this.aggregatedPrices.push({ timestamp: point.timestamp, price: point.price });
+
+        // 保留过期前最近的一个，作为领先时间较长时的参考价格
+        const expiredBefore = point.timestamp - this.aggregatedRetentionMs;
+        const firstIndex = this.aggregatedPrices.findIndex((item) => item.timestamp >= expiredBefore);
+        this.aggregatedPrices = this.aggregatedPrices.slice(Math.max(firstIndex - 1, 0));
+    }
+
+    /**
+     * Chainlink 价格每秒波动的标准差，按相邻两次推送的价格变化估计，样本不足时返回 null
+     */
+    public getVolatility(): number | null {
+        return realizedVolatility(this.chainlinkPrices, this.minVolatilitySamples);
+    }
+
+    /**
+     * 预测下一次 Chainlink 价格和结算时 Up 的概率
+     * @param now 当前时间 (ms)，回测时传入回放时间
+     * @param priceToBeat 周期基准价格
+     * @param settlementTimestamp 周期结束时间 (ms)
+     * @param tracking 聚合价格跟踪统计，为 null 时直接使用最新 Chainlink 价格
+     */
+    public predict(now: number, priceToBeat: number, settlementTimestamp: number, tracking: ChainlinkTrackingStats | null): ChainlinkPrediction | null {
+        const volatility = this.getVolatility();
+        if (volatility === null || !(priceToBeat > 0)) {
+            return null;
+        }
+
+        const latestChainlink = this.chainlinkPrices[this.chainlinkPrices.length - 1];
+        const nextTimestamp = Math.max(latestChainlink.timestamp + this.printIntervalMs, now);
+
+        let nextPrice = latestChainlink.price;
+        let modelError = 0;
+        if (tracking) {
+            const reference = this.getAggregatedPriceAt(Math.min(nextTimestamp - tracking.leadMs, now));
+            if (reference) {
+                nextPrice = reference.price - tracking.leadBias;
+                modelError = tracking.leadRmse;
+            }
+        }
+
+        const remainingSeconds = Math.max(settlementTimestamp - nextTimestamp, 0) / 1000;
+        const settlementStdDev = Math.sqrt(volatility * volatility * remainingSeconds + modelError * modelError);
+        const upProbability = computeUpProbability(nextPrice, priceToBeat, settlementStdDev);
+
+        return {
+            timestamp: now,
+            nextTimestamp,
+            nextPrice,
+            priceToBeat,
+            volatility,
+            settlementStdDev,
+            upProbability,
+        };
+    }
+
+    /**
+     * timestamp 时刻之前最近的聚合价格
+     */
+    private getAggregatedPriceAt(timestamp: number): PricePoint | null {
+        for (let i = this.aggregatedPrices.length - 1; i >= 0; i--) {
+            if (this.aggregatedPrices[i].timestamp <= timestamp) {
+                return this.aggregatedPrices[i];
+            }
+        }
+
+        return null;
+    }
+}
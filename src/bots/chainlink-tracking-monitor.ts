@@ -0,0 +1,122 @@
+import { PricePoint } from './market-context';
+import { computeTrackingError } from './tracking-error';
+
+/**
+ * 聚合价格相对 Chainlink 的跟踪统计
+ * 误差 = 聚合价格 - Chainlink，每个 Chainlink 价格点取该时刻之前最近的聚合价格
+ */
+export interface ChainlinkTrackingStats {
+    samples: number;
+    bias: number;           // 平均误差（不平移）
+    meanAbsError: number;
+    rmse: number;
+    leadMs: number;         // 聚合价格领先 Chainlink 的时间，按平移后 RMSE 最小选取
+    leadBias: number;       // 平移 leadMs 后的平均误差
+    leadRmse: number;       // 平移 leadMs 后的 RMSE
+}
+
+export interface ChainlinkTrackingMonitorOptions {
+    windowMs?: number;      // 滚动统计窗口，默认 5 分钟
+    retentionMs?: number;   // 价格保留时长，需覆盖一个周期，默认 20 分钟
+    maxLeadMs?: number;     // 领先时间搜索上限，默认 5 秒
+    leadStepMs?: number;    // 领先时间搜索步长，默认 250ms
+    statsIntervalMs?: number;   // 滚动统计的最小更新间隔，默认 5 秒
+}
+
+/**
+ * Chainlink 跟踪监控
+ *
+ * 持续对齐 crypto_prices_chainlink 与聚合价格，计算偏差 / RMSE 以及聚合价格领先 Chainlink 的时间，
+ * 用来衡量聚合价格相对等待 Chainlink 有多少提前量
+ * 时间以最新 Chainlink 价格的 timestamp 为准，回测回放时结果确定
+ */
+export class ChainlinkTrackingMonitor {
+    private chainlinkPrices: PricePoint[] = [];     // 旧 -> 新
+    private aggregatedPrices: PricePoint[] = [];    // 旧 -> 新
+    private latestStats: ChainlinkTrackingStats | null = null;
+    private latestStatsTimestamp = 0;
+
+    private readonly windowMs: number;
+    private readonly retentionMs: number;
+    private readonly maxLeadMs: number;
+    private readonly leadStepMs: number;
+    private readonly statsIntervalMs: number;
+
+    public constructor(options: ChainlinkTrackingMonitorOptions = {}) {
+        this.windowMs = options.windowMs ?? 5 * 60 * 1000;
+        this.retentionMs = options.retentionMs ?? 20 * 60 * 1000;
+        this.maxLeadMs = options.maxLeadMs ?? 5 * 1000;
+        this.leadStepMs = options.leadStepMs ?? 250;
+        this.statsIntervalMs = options.statsIntervalMs ?? 5 * 1000;
+    }
+
+    public addChainlinkPrice(point: PricePoint) {
+        this.chainlinkPrices.push({ timestamp: point.timestamp, price: point.price });
+        this.prune(point.timestamp);
+
+        // Chainlink 约 1 秒一次，每次都做 (maxLeadMs / leadStepMs + 1) 次对齐开销较大，按 statsIntervalMs 节流
+        if (this.latestStats !== null && point.timestamp - this.latestStatsTimestamp < this.statsIntervalMs) {
+            return;
+        }
+
+        this.latestStats = this.getStats(point.timestamp - this.windowMs);
+        this.latestStatsTimestamp = point.timestamp;
+    }
+
+    public addAggregatedPrice(point: PricePoint) {
+        this.aggregatedPrices.push({ timestamp: point.timestamp, price: point.price });
+    }
+
+    /**
+     * 最近 windowMs 的滚动统计，最多滞后 statsIntervalMs，尚无样本时返回 null
+     */
+    public getLatestStats(): ChainlinkTrackingStats | null {
+        return this.latestStats;
+    }
+
+    /**
+     * 统计 fromTimestamp 之后的 Chainlink 价格点（如一个周期）
+     */
+    public getStats(fromTimestamp: number): ChainlinkTrackingStats | null {
+        const chainlink = this.chainlinkPrices.filter((point) => point.timestamp >= fromTimestamp);
+        const aggregated = this.sliceAggregatedFrom(fromTimestamp - this.maxLeadMs);
+        const error = computeTrackingError(aggregated, chainlink);
+        if (error.samples === 0) {
+            return null;
+        }
+
+        let leadMs = 0;
+        let leadBias = error.bias;
+        let leadRmse = error.rmse;
+        for (let lead = this.leadStepMs; lead <= this.maxLeadMs; lead += this.leadStepMs) {
+            // 聚合价格领先 lead：t 时刻的聚合价格对应 t + lead 时刻的 Chainlink
+            const shifted = aggregated.map((point) => ({ timestamp: point.timestamp + lead, price: point.price }));
+            const shiftedError = computeTrackingError(shifted, chainlink);
+            if (shiftedError.samples > 0 && shiftedError.rmse < leadRmse) {
+                leadMs = lead;
+                leadBias = shiftedError.bias;
+                leadRmse = shiftedError.rmse;
+            }
+        }
+
+        return { ...error, leadMs, leadBias, leadRmse };
+    }
+
+    /**
+     * fromTimestamp 之后的聚合价格，额外保留之前最近的一个，作为第一个 Chainlink 点的对比价格
+     */
+    private sliceAggregatedFrom(fromTimestamp: number): PricePoint[] {
+        const firstIndex = this.aggregatedPrices.findIndex((point) => point.timestamp >= fromTimestamp);
+        if (firstIndex === -1) {
+            return this.aggregatedPrices.slice(-1);
+        }
+
+        return this.aggregatedPrices.slice(Math.max(firstIndex - 1, 0));
+    }
+
+    private prune(now: number) {
+        const expiredBefore = now - this.retentionMs;
+        this.chainlinkPrices = this.chainlinkPrices.filter((point) => point.timestamp >= expiredBefore);
+        this.aggregatedPrices = this.sliceAggregatedFrom(expiredBefore - this.maxLeadMs);
+    }
+}
@@ -0,0 +1,312 @@
+import * as Fs from 'fs';
+import * as Path from 'path';
+import { PolymarketApiService } from '../services/polymarket-api.service';
+import { IMarket } from '../libs/polymarket-order-book/interfaces';
+import { PricePoint } from './market-context';
+import { PositionExit } from './position-manager';
+
+export const BID_RESULTS_DIR = './bid-results';
+
+/**
+ * 结算结果来源
+ * - GAMMA: 市场已关闭，outcomePrices 中价格为 1 的 outcome 胜出
+ * - CHAINLINK: Gamma 超时未结算，按周期结束时刻的 Chainlink 价格 >= price to beat 判定
+ */
+export type SettlementSource = 'GAMMA' | 'CHAINLINK';
+
+/** executor 记录的下注（bidResults / simulatedBidResults） */
+export interface BidRecord {
+    type: string;
+    outcome: string;
+    price: number;
+    shares: number;
+    timestamp: string;
+    exit?: PositionExit;
+}
+
+export interface BidSettlement extends BidRecord {
+    simulated: boolean;
+    won: boolean;
+    cost: number;       // 买入成本 = price × shares
+    payout: number;     // 提前卖出所得 + 持有到结算的赔付
+    pnl: number;        // payout - cost
+}
+
+export interface PnlSummary {
+    bids: number;
+    wins: number;
+    cost: number;
+    pnl: number;
+}
+
+export interface StrategyPnl {
+    type: string;
+    live: PnlSummary;
+    simulated: PnlSummary;
+}
+
+export interface CycleSettlementRecord {
+    slug: string;
+    winner: string;
+    source: SettlementSource;
+    priceToBeat: number | null;
+    closePrice: number | null;      // 仅 CHAINLINK 来源
+    settledAt: string;
+    bids: BidSettlement[];
+    strategys: StrategyPnl[];
+}
+
+/** 等待结算的周期，由 executor 在周期切换时提交 */
+export interface PendingSettlement {
+    slug: string;
+    outcomes: string[];
+    endTimestamp: number;           // 周期结束时间 (ms)
+    priceToBeat: number | null;
+    bidResults: BidRecord[];
+    simulatedBidResults: BidRecord[];
+}
+
+/**
+ * Gamma 市场已关闭且某个 outcome 价格为 1 时返回该 outcome，否则返回 null
+ */
+export function resolveWinnerFromMarket(market: IMarket | null): string | null {
+    if (!market || !market.closed) {
+        return null;
+    }
+
+    const outcomes: string[] = typeof market.outcomes === 'string' ? JSON.parse(market.outcomes) : market.outcomes;
+    const outcomePrices: string[] = typeof market.outcomePrices === 'string' ? JSON.parse(market.outcomePrices) : market.outcomePrices;
+    const winnerIndex = (outcomePrices ?? []).findIndex((price) => Number(price) === 1);
+    return winnerIndex === -1 ? null : outcomes[winnerIndex] ?? null;
+}
+
+/**
+ * 周期结束时刻的 Chainlink 价格：timestamp <= endTimestamp 的最新价格，距结束超过 maxStalenessMs 视为缺失
+ */
+export function findClosePrice(prices: readonly PricePoint[], endTimestamp: number, maxStalenessMs: number): number | null {
+    let close: PricePoint | null = null;
+    for (const point of prices) {
+        if (point.timestamp <= endTimestamp && (!close || point.timestamp > close.timestamp)) {
+            close = point;
+        }
+    }
+
+    return close && endTimestamp - close.timestamp <= maxStalenessMs ? close.price : null;
+}
+
+/**
+ * 计算单笔下注的实现盈亏：提前卖出的份额按卖出价，其余份额胜出赔付 $1、失败归零
+ */
+export function settleBid(record: BidRecord, winner: string, simulated: boolean): BidSettlement {
+    const won = record.outcome.toLowerCase() === winner.toLowerCase();
+    const cost = record.price * record.shares;
+    const payout = computePayout(record, won);
+
+    return { ...record, simulated, won, cost, payout, pnl: payout - cost };
+}
+
+/**
+ * 提前卖出的份额按卖出价，其余份额持有到结算（胜出每份 1 USDC）
+ */
+export function computePayout(record: Pick<BidRecord, 'shares' | 'exit'>, won: boolean): number {
+    const soldShares = record.exit?.shares ?? 0;
+    const heldShares = Math.max(record.shares - soldShares, 0);
+    return (record.exit ? record.exit.price * soldShares : 0) + (won ? heldShares : 0);
+}
+
+function emptyPnlSummary(): PnlSummary {
+    return { bids: 0, wins: 0, cost: 0, pnl: 0 };
+}
+
+/**
+ * 按策略汇总实盘 / 模拟盈亏，可传入多个周期的下注
+ */
+export function summarizeByStrategy(bids: BidSettlement[]): StrategyPnl[] {
+    const byType = new Map<string, StrategyPnl>();
+    for (const bid of bids) {
+        if (!byType.has(bid.type)) {
+            byType.set(bid.type, { type: bid.type, live: emptyPnlSummary(), simulated: emptyPnlSummary() });
+        }
+
+        const summary = bid.simulated ? byType.get(bid.type).simulated : byType.get(bid.type).live;
+        summary.bids++;
+        summary.wins += bid.won ? 1 : 0;
+        summary.cost += bid.cost;
+        summary.pnl += bid.pnl;
+    }
+
+    return Array.from(byType.values());
+}
+
+export function buildSettlementRecord(
+    pending: PendingSettlement,
+    winner: string,
+    source: SettlementSource,
+    closePrice: number | null,
+): CycleSettlementRecord {
+    const bids = [
+        ...pending.bidResults.map((record) => settleBid(record, winner, false)),
+        ...pending.simulatedBidResults.map((record) => settleBid(record, winner, true)),
+    ];
+
+    return {
+        slug: pending.slug,
+        winner,
+        source,
+        priceToBeat: pending.priceToBeat,
+        closePrice,
+        settledAt: new Date().toISOString(),
+        bids,
+        strategys: summarizeByStrategy(bids),
+    };
+}
+
+/**
+ * 读取最近 limit 个周期的结算记录（按 slug 中的周期时间排序）
+ */
+export function loadSettlementRecords(bidResultsDir: string, limit: number): CycleSettlementRecord[] {
+    if (!Fs.existsSync(bidResultsDir)) {
+        return [];
+    }
+
+    const records = Fs.readdirSync(bidResultsDir)
+        .filter((file) => file.endsWith('-settlement.json'))
+        .map((file) => JSON.parse(Fs.readFileSync(Path.join(bidResultsDir, file), 'utf-8')) as CycleSettlementRecord)
+        .sort((a, b) => Number(a.slug.split('-')[3]) - Number(b.slug.split('-')[3]));
+
+    return records.slice(-limit);
+}
+
+/**
+ * 策略排行榜：实盘 PnL 降序，其次模拟 PnL 降序
+ */
+export function buildLeaderboard(records: CycleSettlementRecord[]): StrategyPnl[] {
+    return summarizeByStrategy(records.flatMap((record) => record.bids))
+        .sort((a, b) => b.live.pnl - a.live.pnl || b.simulated.pnl - a.simulated.pnl);
+}
+
+export interface CycleSettlerOptions {
+    name: string;                   // 日志前缀，与 executor 一致
+    retryIntervalMs?: number;       // Gamma 查询间隔，默认 30 秒
+    gammaTimeoutMs?: number;        // 周期结束后 Gamma 仍未结算则使用 Chainlink，默认 10 分钟
+    maxStalenessMs?: number;        // 结束价格与结束时刻的最大间隔，默认 2 秒
+    bidResultsDir?: string;
+}
+
+/**
+ * 周期结算
+ *
+ * Gamma 市场通常在周期结束几分钟后才关闭，周期切换时先提交待结算，由定时任务反复查询；
+ * 超时后用周期结束时刻的 Chainlink 价格判定，结算记录写入 *-settlement.json
+ */
+export class CycleSettler {
+    private pendings: PendingSettlement[] = [];
+    private chainlinkPrices: PricePoint[] = [];
+    private lastAttemptAt: Record<string, number> = {};
+    private isSettling: boolean = false;
+
+    private readonly retryIntervalMs: number;
+    private readonly gammaTimeoutMs: number;
+    private readonly maxStalenessMs: number;
+    private readonly bidResultsDir: string;
+
+    public constructor(
+        private readonly polymarketApiService: PolymarketApiService,
+        private readonly options: CycleSettlerOptions,
+    ) {
+        this.retryIntervalMs = options.retryIntervalMs ?? 30 * 1000;
+        this.gammaTimeoutMs = options.gammaTimeoutMs ?? 10 * 60 * 1000;
+        this.maxStalenessMs = options.maxStalenessMs ?? 2 * 1000;
+        this.bidResultsDir = options.bidResultsDir ?? BID_RESULTS_DIR;
+    }
+
+    public addChainlinkPrice(point: PricePoint) {
+        this.chainlinkPrices.push({ timestamp: point.timestamp, price: point.price });
+
+        // 保留到最早的待结算周期结束之后
+        const earliestEnd = Math.min(point.timestamp, ...this.pendings.map((pending) => pending.endTimestamp));
+        this.chainlinkPrices = this.chainlinkPrices.filter((item) => item.timestamp >= earliestEnd - 60 * 1000);
+    }
+
+    public enqueue(pending: PendingSettlement) {
+        this.pendings.push(pending);
+    }
+
+    public getPendingCount(): number {
+        return this.pendings.length;
+    }
+
+    /**
+     * 由定时任务每秒调用，内部按 retryIntervalMs 限流
+     */
+    public async settlePending() {
+        if (this.isSettling || this.pendings.length === 0) {
+            return;
+        }
+
+        this.isSettling = true;
+        try {
+            for (const pending of [...this.pendings]) {
+                await this.trySettle(pending);
+            }
+        } finally {
+            this.isSettling = false;
+        }
+    }
+
+    private async trySettle(pending: PendingSettlement) {
+        const now = Date.now();
+        if (now - (this.lastAttemptAt[pending.slug] ?? 0) < this.retryIntervalMs) {
+            return;
+        }
+        this.lastAttemptAt[pending.slug] = now;
+
+        try {
+            const market = await this.polymarketApiService.getMarketBySlug(pending.slug);
+            const winner = resolveWinnerFromMarket(market);
+            if (winner) {
+                await this.complete(pending, buildSettlementRecord(pending, winner, 'GAMMA', null));
+                return;
+            }
+        } catch (error) {
+            console.error(`[${this.options.name}] settlement fetch market failed: ${error.message}`);
+        }
+
+        if (now - pending.endTimestamp < this.gammaTimeoutMs) {
+            return;
+        }
+
+        const closePrice = findClosePrice(this.chainlinkPrices, pending.endTimestamp, this.maxStalenessMs);
+        if (pending.priceToBeat === null || closePrice === null) {
+            console.error(`[${this.options.name}] ❌ Settlement failed - ${pending.slug}: price to beat or close price missing`);
+            this.remove(pending);
+            return;
+        }
+
+        const winnerName = closePrice >= pending.priceToBeat ? 'up' : 'down';
+        const winner = pending.outcomes.find((outcome) => outcome.toLowerCase() === winnerName);
+        await this.complete(pending, buildSettlementRecord(pending, winner, 'CHAINLINK', closePrice));
+    }
+
+    private async complete(pending: PendingSettlement, record: CycleSettlementRecord) {
+        this.remove(pending);
+
+        // CYCLE_STORAGE=clickhouse 时 bid-results 目录可能不存在；写入失败只记录日志，不影响定时任务
+        try {
+            await Fs.promises.mkdir(this.bidResultsDir, { recursive: true });
+            await Fs.promises.writeFile(Path.join(this.bidResultsDir, `${pending.slug}-settlement.json`), JSON.stringify(record));
+        } catch (error) {
+            console.error(`[${this.options.name}] save settlement ${pending.slug} failed: ${error.message}`);
+        }
+
+        const summary = record.strategys
+            .map((item) => `${item.type} live ${item.live.pnl.toFixed(4)} / sim ${item.simulated.pnl.toFixed(4)}`)
+            .join(' | ');
+        console.log(`\n[${this.options.name}] 🏁 Settled - ${pending.slug}: ${record.winner} (${record.source})${summary ? ` | ${summary}` : ''}`);
+    }
+
+    private remove(pending: PendingSettlement) {
+        this.pendings = this.pendings.filter((item) => item !== pending);
+        delete this.lastAttemptAt[pending.slug];
+    }
+}
@@ -0,0 +1,49 @@
+import { OrderSummary, Side } from '@polymarket/clob-client';
+import { ChainlinkPrediction } from './chainlink-predictor';
+import { ChainlinkTrackingStats } from './chainlink-tracking-monitor';
+
+/** 价格点（BTC Chainlink 价格 / 聚合价格） */
+export interface PricePoint {
+    timestamp: number;  // ms
+    price: number;
+}
+
+/**
+ * 策略读取市场状态的只读接口
+ * 由 executor（实盘 / 回测）实现，策略只依赖此接口，不再直接访问 executor 内部数组
+ * 所有价格序列均为 新 -> 旧 排列（下标 0 为最新，最后一个为周期基准）
+ */
+export interface MarketContext {
+    /** outcome 名称，下标即 outcomeIndex */
+    readonly outcomes: readonly string[];
+
+    /** 当前周期开始时间 (ms) */
+    getCycleStartTimestamp(): number;
+
+    /** 周期长度 (ms) */
+    getCycleDurationMs(): number;
+
+    /** 当前周期已经过的时间 (ms) */
+    getElapsedMs(): number;
+
+    /** 周期基准价格（price to beat）是否已由可靠来源确认，未确认时 Chainlink 价格序列的基准可能不准确 */
+    isBaselineConfirmed(): boolean;
+
+    /** 当前周期的 Chainlink BTC 价格 */
+    getChainlinkPrices(): readonly PricePoint[];
+
+    /** 当前周期的多交易所聚合 BTC 价格，尚无数据时返回 null */
+    getAggregatedPrices(): readonly PricePoint[] | null;
+
+    /** 聚合价格相对 Chainlink 的滚动跟踪统计（偏差 / RMSE / 领先时间），样本不足时返回 null */
+    getChainlinkTrackingStats(): ChainlinkTrackingStats | null;
+
+    /** 下一次 Chainlink 价格及结算时 Up 的概率（公允价值），波动率样本不足或缺少基准价格时返回 null */
+    getChainlinkPrediction(): ChainlinkPrediction | null;
+
+    /** 最新 outcome 价格（best ask），outcome -> price */
+    getOutcomePrices(): Readonly<Record<string, number>>;
+
+    /** outcome 的订单簿快照，BUY 返回 asks，SELL 返回 bids，无数据时返回 null */
+    getOrderBookSnapshot(outcomeIndex: number, side: Side): OrderSummary[] | null;
+}
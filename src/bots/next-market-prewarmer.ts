@@ -0,0 +1,116 @@
+import { PolymarketApiService } from '../services/polymarket-api.service';
+import { IMarket } from '../libs/polymarket-order-book/interfaces';
+import { MarketOrderBookOptions, MultiMarketOrderBookManager } from '../libs/polymarket-order-book/multi-market-order-book-manager';
+import { OrderBookManager } from '../libs/polymarket-order-book/order-book-manager';
+import { PolymarketTrader } from './polymarket-trader';
+
+export interface PrewarmedMarket {
+    market: IMarket;
+    orderBookManager: OrderBookManager;
+    preparedAt: number;     // 预热完成时间 (ms)
+}
+
+export interface NextMarketPrewarmerOptions {
+    name: string;                   // 日志前缀，与 executor 一致
+    leadTimeMs?: number;            // 下个周期开始前多久开始预热，默认 30 秒
+    retryIntervalMs?: number;       // 市场未创建或预热失败后的重试间隔，默认 5 秒
+    orderBookOptions?: MarketOrderBookOptions;
+}
+
+/**
+ * 下个周期市场预热
+ *
+ * 周期结束前查询下个 slug 的市场、缓存 tick size / fee rate / neg risk，并在共享订单簿连接上提前订阅；
+ * 周期切换时 executor 用 take() 直接取出，不再等待接口和订单簿快照
+ */
+export class NextMarketPrewarmer {
+    private prewarmed: PrewarmedMarket | null = null;
+    private isPrewarming: boolean = false;
+    private lastAttemptAt: number = 0;
+    private lastTakenSlug: string = null;
+
+    private readonly leadTimeMs: number;
+    private readonly retryIntervalMs: number;
+
+    public constructor(
+        private readonly polymarketApiService: PolymarketApiService,
+        private readonly polymarketTrader: PolymarketTrader,
+        private readonly orderBookHub: MultiMarketOrderBookManager,
+        private readonly options: NextMarketPrewarmerOptions,
+    ) {
+        this.leadTimeMs = options.leadTimeMs ?? 30 * 1000;
+        this.retryIntervalMs = options.retryIntervalMs ?? 5 * 1000;
+    }
+
+    public getPrewarmed(): PrewarmedMarket | null {
+        return this.prewarmed;
+    }
+
+    /**
+     * 由定时任务每秒调用，距 startTimestamp 不足 leadTimeMs 时预热 slug 对应的市场，内部按 retryIntervalMs 限流
+     */
+    public async prewarm(slug: string, startTimestamp: number): Promise<PrewarmedMarket | null> {
+        if (this.prewarmed?.market.slug === slug) {
+            return this.prewarmed;
+        }
+
+        const now = Date.now();
+        if (
+            this.isPrewarming ||
+            slug === this.lastTakenSlug ||
+            now < startTimestamp - this.leadTimeMs ||
+            now - this.lastAttemptAt < this.retryIntervalMs
+        ) {
+            return null;
+        }
+
+        this.isPrewarming = true;
+        this.lastAttemptAt = now;
+        try {
+            const market = await this.polymarketApiService.getMarketBySlug(slug);
+            if (!market) {
+                return null;
+            }
+
+            await this.polymarketTrader.initialize(market);
+
+            // 预热期间已经切换到该周期，executor 通过 addMarket 拿到同一个实例，这里不再保留
+            if (slug === this.lastTakenSlug) {
+                return null;
+            }
+
+            this.orderBookHub.connect();
+            const orderBookManager = this.orderBookHub.addMarket(market, this.options.orderBookOptions);
+            this.discard();
+            this.prewarmed = { market, orderBookManager, preparedAt: Date.now() };
+            console.log(`\n[${this.options.name}] 🔥 Prewarmed - ${slug}, ${startTimestamp - Date.now()}ms before start`);
+            return this.prewarmed;
+        } catch (error) {
+            console.error(`[${this.options.name}] prewarm ${slug} failed: ${error.message}`);
+            return null;
+        } finally {
+            this.isPrewarming = false;
+        }
+    }
+
+    /**
+     * 周期切换时取出预热的市场，slug 不一致时取消预热的订阅并返回 null
+     */
+    public take(slug: string): PrewarmedMarket | null {
+        this.lastTakenSlug = slug;
+
+        const prewarmed = this.prewarmed;
+        if (prewarmed?.market.slug !== slug) {
+            this.discard();
+            return null;
+        }
+
+        this.prewarmed = null;
+        return prewarmed;
+    }
+
+    public discard() {
+        this.prewarmed?.orderBookManager.destroy();
+        this.prewarmed = null;
+    }
+}
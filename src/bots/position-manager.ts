@@ -0,0 +1,221 @@
+import { OrderType, Side } from '@polymarket/clob-client';
+import { calculateSellMarketPrice } from '../libs/polymarket-order-book/utils';
+import { CycleRecorder } from '../libs/cycle-storage/cycle-recorder';
+import { MarketContext } from './market-context';
+import { PolymarketTrader } from './polymarket-trader';
+import { BaseStrategy } from './strategys/base.strategy';
+import { ExitReason } from './strategys/exit-rules';
+
+/** 平仓结果，写回到开仓记录（bidResults / simulatedBidResults）的 exit 字段 */
+export interface PositionExit {
+    reason: ExitReason;
+    price: number;      // 卖出均价
+    shares: number;     // 卖出份额
+    timestamp: string;
+    pnl: number;        // 已实现盈亏 (USDC) = 卖出所得 - 对应份额的买入成本
+}
+
+export interface Position {
+    strategy: BaseStrategy;
+    outcomeIndex: number;
+    tokenId: string;
+    shares: number;
+    entryPrice: number;
+    entryBtcPrice: number | null;   // 开仓时的 BTC 聚合价格
+    peakBid: number | null;         // 持仓期间的最高 best bid（移动止损用）
+    simulated: boolean;
+    status: 'OPEN' | 'CLOSING' | 'CLOSED' | 'EXIT_FAILED';    // EXIT_FAILED: 卖出多次失败后放弃，等待结算
+    sellFailures: number;           // 实盘卖单连续失败次数
+    lastSellFailedAt: number | null;
+    record: { price: number; shares: number; exit?: PositionExit };  // 开仓记录
+}
+
+// 卖出必须成交，最低接受价格
+const SELL_MIN_PRICE = 0.01;
+// 剩余份额小于该值视为已清仓
+const DUST_SHARES = 0.01;
+// 实盘卖单失败后的重试间隔和最多尝试次数
+const SELL_RETRY_INTERVAL_MS = 5 * 1000;
+const SELL_MAX_ATTEMPTS = 5;
+
+/**
+ * 持仓管理
+ *
+ * 跟踪每笔成交（实盘 bid / 模拟 simulateBid），每个 tick 检查策略的 exitPolicy，
+ * 触发后实盘持仓通过 PolymarketTrader 提交 SELL FAK，模拟持仓按当前 bids 计算成交价；
+ * 实盘卖单失败后间隔 SELL_RETRY_INTERVAL_MS 重试，连续失败 SELL_MAX_ATTEMPTS 次后放弃平仓
+ */
+export class PositionManager {
+    private positions: Position[] = [];
+
+    public constructor(
+        private readonly context: MarketContext,
+        private readonly polymarketTrader: PolymarketTrader,
+        private readonly recorder: CycleRecorder | null = null,   // 记录卖单和成交
+    ) {}
+
+    public open(position: Omit<Position, 'status' | 'entryBtcPrice' | 'peakBid' | 'sellFailures' | 'lastSellFailedAt'>): Position {
+        const aggregatedPrices = this.context.getAggregatedPrices();
+        const opened: Position = {
+            ...position,
+            entryBtcPrice: aggregatedPrices?.length > 0 ? aggregatedPrices[0].price : null,
+            peakBid: null,
+            status: 'OPEN',
+            sellFailures: 0,
+            lastSellFailedAt: null,
+        };
+        this.positions.push(opened);
+        return opened;
+    }
+
+    public getPositions(): readonly Position[] {
+        return this.positions;
+    }
+
+    /** 周期切换时清空，未平仓的持仓等待结算 */
+    public reset() {
+        this.positions = [];
+    }
+
+    public checkExits() {
+        for (const position of this.positions) {
+            const exitPolicy = position.strategy.exitPolicy;
+            if (position.status !== 'OPEN' || !exitPolicy) {
+                continue;
+            }
+
+            const bestBid = this.getBestBid(position.outcomeIndex);
+            if (bestBid !== null && (position.peakBid === null || bestBid > position.peakBid)) {
+                position.peakBid = bestBid;
+            }
+
+            const reason = exitPolicy.evaluate(this.context, {
+                outcomeIndex: position.outcomeIndex,
+                entryPrice: position.entryPrice,
+                entryBtcPrice: position.entryBtcPrice,
+                peakBid: position.peakBid,
+                bestBid,
+            });
+            if (!reason || this.isWaitingSellRetry(position)) {
+                continue;
+            }
+
+            if (position.simulated) {
+                this.closeSimulated(position, reason);
+            } else {
+                this.close(position, reason);
+            }
+        }
+    }
+
+    private isWaitingSellRetry(position: Position): boolean {
+        return position.lastSellFailedAt !== null && Date.now() - position.lastSellFailedAt < SELL_RETRY_INTERVAL_MS;
+    }
+
+    private getBestBid(outcomeIndex: number): number | null {
+        const bids = this.context.getOrderBookSnapshot(outcomeIndex, Side.SELL);
+        if (!bids || bids.length === 0) {
+            return null;
+        }
+
+        return Math.max(...bids.map((bid) => parseFloat(bid.price)));
+    }
+
+    private closeSimulated(position: Position, reason: ExitReason) {
+        const bids = this.context.getOrderBookSnapshot(position.outcomeIndex, Side.SELL);
+        if (!bids || bids.length === 0) {
+            return;
+        }
+
+        const price = calculateSellMarketPrice(bids, position.shares, OrderType.FAK);
+        this.recordOrder(position, SELL_MIN_PRICE);
+        this.recordExit(position, reason, price, position.shares);
+    }
+
+    private async close(position: Position, reason: ExitReason) {
+        position.status = 'CLOSING';
+
+        try {
+            this.recordOrder(position, SELL_MIN_PRICE);
+            const order = await this.polymarketTrader.buildMarketOrder(position.tokenId, SELL_MIN_PRICE, position.shares, Side.SELL);
+            const orderResult = await this.polymarketTrader.postOrder(order, OrderType.FAK);
+            if (!!orderResult.error) {
+                this.handleSellFailure(position, orderResult.error);
+                return;
+            }
+
+            // SELL: makingAmount 为卖出份额，takingAmount 为收到的 USDC
+            const soldShares = Number(orderResult.makingAmount);
+            if (!(soldShares > 0)) {
+                this.handleSellFailure(position, `no shares filled (makingAmount: ${orderResult.makingAmount})`);
+                return;
+            }
+
+            // 有成交即重新计算连续失败次数，剩余份额不用等待重试间隔
+            position.sellFailures = 0;
+            position.lastSellFailedAt = null;
+
+            const price = Number(orderResult.takingAmount) / soldShares;
+            this.recordExit(position, reason, price, soldShares);
+        } catch (error) {
+            this.handleSellFailure(position, error);
+        }
+    }
+
+    private handleSellFailure(position: Position, error: unknown) {
+        position.sellFailures += 1;
+        position.lastSellFailedAt = Date.now();
+
+        if (position.sellFailures < SELL_MAX_ATTEMPTS) {
+            console.error(`\n[PositionManager] sell failed (${position.sellFailures}/${SELL_MAX_ATTEMPTS})`, error);
+            position.status = 'OPEN';
+            return;
+        }
+
+        // 不再重试，持仓保留到市场结算
+        position.status = 'EXIT_FAILED';
+        console.error(`\n[PositionManager] ❌ Give up selling [${position.strategy.type}] | Outcome: ${this.context.outcomes[position.outcomeIndex]} | Shares: ${position.shares} | after ${position.sellFailures} attempts, hold until settlement`, error);
+    }
+
+    private recordExit(position: Position, reason: ExitReason, price: number, soldShares: number) {
+        const pnl = (price - position.entryPrice) * soldShares;
+        const previous = position.record.exit;
+
+        // 部分成交时累计到同一条 exit 记录
+        position.record.exit = previous
+            ? {
+                reason,
+                price: (previous.price * previous.shares + price * soldShares) / (previous.shares + soldShares),
+                shares: previous.shares + soldShares,
+                timestamp: new Date().toISOString(),
+                pnl: previous.pnl + pnl,
+            }
+            : { reason, price, shares: soldShares, timestamp: new Date().toISOString(), pnl };
+
+        this.recorder?.recordFill({
+            strategy: position.strategy.type,
+            outcome: this.context.outcomes[position.outcomeIndex],
+            side: 'SELL',
+            price,
+            shares: soldShares,
+            simulated: position.simulated,
+        });
+
+        position.shares -= soldShares;
+        position.status = position.shares < DUST_SHARES ? 'CLOSED' : 'OPEN';
+
+        const tag = position.simulated ? '🤔 Simulate Sell' : '💰 Sell';
+        console.log(`\n[PositionManager] ${tag} [${position.strategy.type}] ${reason} | Outcome: ${this.context.outcomes[position.outcomeIndex]} | Entry: ${position.entryPrice} | Exit: ${price} | Shares: ${soldShares} | PNL: ${pnl.toFixed(4)}`);
+    }
+
+    private recordOrder(position: Position, price: number) {
+        this.recorder?.recordOrder({
+            strategy: position.strategy.type,
+            outcome: this.context.outcomes[position.outcomeIndex],
+            side: 'SELL',
+            price,
+            amount: position.shares,
+            simulated: position.simulated,
+        });
+    }
+}
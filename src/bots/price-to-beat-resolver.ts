@@ -0,0 +1,140 @@
+import Axios from 'axios';
+import { formatUnits } from 'ethers';
+import { PolymarketApiService } from '../services/polymarket-api.service';
+import { PricePoint } from './market-context';
+import { UpDownAsset } from './up-down-assets';
+
+/**
+ * 基准价格来源
+ * - CHAINLINK_MARKERS: data.chain.link 历史 15 分钟标记的 open（只覆盖 15 分钟对齐的周期）
+ * - POLYMARKET_METADATA: Gamma event 的 eventMetadata.priceToBeat
+ * - LIVE_CHAINLINK: 实时推送中 timestamp 恰好等于周期开始时间的 Chainlink 价格
+ * - FIRST_CAPTURED: 周期开始后收到的第一个 Chainlink 价格（连接晚于周期开始时不准确，未确认）
+ */
+export type PriceToBeatSource = 'CHAINLINK_MARKERS' | 'POLYMARKET_METADATA' | 'LIVE_CHAINLINK' | 'FIRST_CAPTURED';
+
+export interface PriceToBeatResolution {
+    price: number;
+    source: PriceToBeatSource;
+    confirmed: boolean;
+    resolvedAt: number;     // ms
+}
+
+export interface PriceToBeatResolverOptions {
+    slug: string;
+    asset: UpDownAsset;
+    startTimestamp: number;     // 周期开始时间 (ms)
+    retryIntervalMs?: number;   // 接口查询最小间隔，默认 5 秒
+}
+
+/**
+ * 周期基准价格（price to beat）解析
+ *
+ * 依次尝试 Chainlink 历史标记、Polymarket 市场元数据、周期开始时刻的实时 Chainlink 价格，
+ * 任一来源确认后不再查询；确认前用周期开始后的第一个 Chainlink 价格作为临时基准
+ */
+export class PriceToBeatResolver {
+    private resolution: PriceToBeatResolution | null = null;
+    private isResolving: boolean = false;
+    private lastAttemptAt: number = 0;
+
+    private readonly retryIntervalMs: number;
+
+    public constructor(
+        private readonly polymarketApiService: PolymarketApiService,
+        private readonly options: PriceToBeatResolverOptions,
+    ) {
+        this.retryIntervalMs = options.retryIntervalMs ?? 5 * 1000;
+    }
+
+    public getResolution(): PriceToBeatResolution | null {
+        return this.resolution;
+    }
+
+    public isConfirmed(): boolean {
+        return !!this.resolution?.confirmed;
+    }
+
+    /**
+     * 实时 Chainlink 价格，timestamp 等于周期开始时间即为确认的基准价格
+     */
+    public addChainlinkPrice(point: PricePoint) {
+        if (this.isConfirmed() || point.timestamp < this.options.startTimestamp) {
+            return;
+        }
+
+        if (point.timestamp === this.options.startTimestamp) {
+            this.setResolution(point.price, 'LIVE_CHAINLINK', true);
+        } else if (!this.resolution) {
+            this.setResolution(point.price, 'FIRST_CAPTURED', false);
+        }
+    }
+
+    /**
+     * 查询接口来源，未确认前由定时任务反复调用，内部按 retryIntervalMs 限流
+     */
+    public async resolve(): Promise<PriceToBeatResolution | null> {
+        if (this.isConfirmed() || this.isResolving || Date.now() - this.lastAttemptAt < this.retryIntervalMs) {
+            return this.resolution;
+        }
+
+        this.isResolving = true;
+        this.lastAttemptAt = Date.now();
+        try {
+            const markerPrice = await this.fetchChainlinkMarkerPrice();
+            if (markerPrice !== null) {
+                this.setResolution(markerPrice, 'CHAINLINK_MARKERS', true);
+                return this.resolution;
+            }
+
+            const metadataPrice = await this.fetchPolymarketMetadataPrice();
+            if (metadataPrice !== null) {
+                this.setResolution(metadataPrice, 'POLYMARKET_METADATA', true);
+            }
+
+            return this.resolution;
+        } finally {
+            this.isResolving = false;
+        }
+    }
+
+    private setResolution(price: number, source: PriceToBeatSource, confirmed: boolean) {
+        // 已确认的来源不会被覆盖（resolve 期间实时价格可能先确认）
+        if (this.isConfirmed()) {
+            return;
+        }
+
+        this.resolution = { price, source, confirmed, resolvedAt: Date.now() };
+        console.log(`\n[PriceToBeatResolver] ${confirmed ? '✅' : '⏳'} ${this.options.slug} price to beat: ${price} (${source})`);
+    }
+
+    private async fetchChainlinkMarkerPrice(): Promise<number | null> {
+        try {
+            const startDate = new Date(this.options.startTimestamp).toISOString().slice(0, 19);
+            const response = await Axios.get(`https://data.chain.link/api/historical-timescale-stream-data?feedId=${this.options.asset.chainlinkFeedId}&timeRange=1D`, { timeout: 5000 });
+            for (const node of response.data?.data?.mercuryHistory15MinMarkers?.nodes ?? []) {
+                if (node.timeBucket.startsWith(startDate)) {
+                    return Number(formatUnits(node.open, 18));
+                }
+            }
+        } catch (error) {
+            console.error(`[PriceToBeatResolver] fetch chainlink markers failed: ${error.message}`);
+        }
+
+        return null;
+    }
+
+    private async fetchPolymarketMetadataPrice(): Promise<number | null> {
+        try {
+            const event = await this.polymarketApiService.getEventBySlug(this.options.slug);
+            const price = Number(event?.eventMetadata?.priceToBeat);
+            if (Number.isFinite(price) && price > 0) {
+                return price;
+            }
+        } catch (error) {
+            console.error(`[PriceToBeatResolver] fetch polymarket metadata failed: ${error.message}`);
+        }
+
+        return null;
+    }
+}
@@ -1,4 +1,5 @@
-import { BTC15MExecutor } from "../btc-15m-executor";
+import { MarketContext } from "../market-context";
+import { createExitRules, ExitPolicy, ExitPolicyConfig } from "./exit-rules";
 
 export enum StrategyType {
     S27_MEAN_REVERSION = 'S27_MEAN_REVERSION',
@@ -7,13 +8,64 @@ export enum StrategyType {
     S35_MEAN_REVERSION_AGGREGATED = 'S35_MEAN_REVERSION_AGGREGATED',
     S36_MEAN_REVERSION_EXTENDED = 'S36_MEAN_REVERSION_EXTENDED',
     S37_MEAN_REVERSION_TAKE_PROFIT = 'S37_MEAN_REVERSION_TAKE_PROFIT',
+    S38_FAIR_VALUE_EDGE = 'S38_FAIR_VALUE_EDGE',
 }
 
-export abstract class BaseStrategy {
+export enum StrategyMode {
+    LIVE = 'live',          // 实盘下单 + 模拟记录
+    SIMULATE = 'simulate',  // 只模拟记录
+}
+
+/**
+ * 策略实例化参数，由策略配置文件生成
+ */
+export interface StrategyOptions<P extends object> {
+    params: P;          // 策略阈值参数
+    canBid: boolean;    // 是否实盘下单（false 只模拟）
+    stake: number;      // 每次下注金额 (USDC)
+    exit?: ExitPolicyConfig;    // 平仓规则，不配置则持有到结算
+    requireConfirmedBaseline?: boolean;  // 基准价格确认前不检查信号
+}
+
+export abstract class BaseStrategy<P extends object = object> {
     public readonly type: StrategyType;
-    public readonly canBid: boolean = false;
+    public readonly canBid: boolean;
+    public readonly stake: number;
+    public readonly exitPolicy: ExitPolicy | null;
+    public readonly requireConfirmedBaseline: boolean;
+
+    protected readonly params: P;
 
-    public constructor(protected readonly btc15mExecutor: BTC15MExecutor) {}
+    public constructor(protected readonly context: MarketContext, options: StrategyOptions<P>) {
+        this.params = options.params;
+        this.canBid = options.canBid;
+        this.stake = options.stake;
+        this.exitPolicy = this.createExitPolicy(options.exit ?? {});
+        this.requireConfirmedBaseline = options.requireConfirmedBaseline ?? false;
+    }
 
     public abstract checkSignal(): [boolean, number];
-}
\ No newline at end of file
+
+    /**
+     * outcome 的公允价值（结算时该 outcome 胜出的概率），可与 getOutcomePrices() 的价格直接比较
+     * 预测不可用时返回 null
+     */
+    protected getFairValue(outcomeIndex: number): number | null {
+        const prediction = this.context.getChainlinkPrediction();
+        const outcome = this.context.outcomes[outcomeIndex]?.toLowerCase();
+        if (!prediction || (outcome !== 'up' && outcome !== 'down')) {
+            return null;
+        }
+
+        return outcome === 'up' ? prediction.upProbability : 1 - prediction.upProbability;
+    }
+
+    /**
+     * 创建平仓规则，持仓期间由 PositionManager 每个 tick 检查
+     * 子类可覆盖以声明默认规则（在构造函数中调用，只能读取 this.params）
+     */
+    protected createExitPolicy(config: ExitPolicyConfig): ExitPolicy | null {
+        const rules = createExitRules(config);
+        return rules.length > 0 ? new ExitPolicy(rules) : null;
+    }
+}
@@ -0,0 +1,146 @@
+import { IsInt, IsNumber, IsOptional, IsPositive, Max, Min } from "class-validator";
+import { MarketContext } from "../market-context";
+
+export enum ExitReason {
+    TAKE_PROFIT = 'TAKE_PROFIT',
+    STOP_LOSS = 'STOP_LOSS',
+    TRAILING_STOP = 'TRAILING_STOP',
+    TIME_STOP = 'TIME_STOP',
+}
+
+/**
+ * 平仓规则读取的持仓状态，由 PositionManager 维护
+ */
+export interface ExitState {
+    outcomeIndex: number;
+    entryPrice: number;             // 买入均价
+    entryBtcPrice: number | null;   // 买入时的 BTC 聚合价格
+    peakBid: number | null;         // 持仓期间出现过的最高 best bid
+    bestBid: number | null;         // 当前 best bid，无 bids 时为 null
+}
+
+export interface ExitRule {
+    readonly reason: ExitReason;
+    shouldExit(context: MarketContext, state: ExitState): boolean;
+}
+
+/**
+ * 止盈: best bid 涨到 买入价 + offset
+ */
+export class TakeProfitExitRule implements ExitRule {
+    public readonly reason = ExitReason.TAKE_PROFIT;
+
+    public constructor(private readonly offset: number) {}
+
+    public shouldExit(context: MarketContext, state: ExitState): boolean {
+        return state.bestBid !== null && state.bestBid >= state.entryPrice + this.offset;
+    }
+}
+
+/**
+ * BTC 偏移止损: BTC 聚合价格相对买入时反向移动超过 deviation
+ * 买 Up 时 BTC 下跌、买 Down 时 BTC 上涨视为反向
+ */
+export class BtcStopLossExitRule implements ExitRule {
+    public readonly reason = ExitReason.STOP_LOSS;
+
+    public constructor(private readonly deviation: number) {}
+
+    public shouldExit(context: MarketContext, state: ExitState): boolean {
+        if (state.entryBtcPrice === null) {
+            return false;
+        }
+
+        const aggregatedPrices = context.getAggregatedPrices();
+        if (!aggregatedPrices || aggregatedPrices.length === 0) {
+            return false;
+        }
+
+        const change = aggregatedPrices[0].price - state.entryBtcPrice;
+        const isUp = context.outcomes[state.outcomeIndex]?.toLowerCase() === 'up';
+        const adverse = isUp ? -change : change;
+        return adverse > this.deviation;
+    }
+}
+
+/**
+ * 移动止损: best bid 从持仓期间最高点回撤 trail
+ */
+export class TrailingStopExitRule implements ExitRule {
+    public readonly reason = ExitReason.TRAILING_STOP;
+
+    public constructor(private readonly trail: number) {}
+
+    public shouldExit(context: MarketContext, state: ExitState): boolean {
+        if (state.bestBid === null || state.peakBid === null) {
+            return false;
+        }
+
+        return state.bestBid <= state.peakBid - this.trail;
+    }
+}
+
+/**
+ * 时间止损: 周期结束前 seconds 秒强制平仓
+ */
+export class TimeStopExitRule implements ExitRule {
+    public readonly reason = ExitReason.TIME_STOP;
+
+    public constructor(private readonly seconds: number) {}
+
+    public shouldExit(context: MarketContext, state: ExitState): boolean {
+        return context.getElapsedMs() >= context.getCycleDurationMs() - this.seconds * 1000;
+    }
+}
+
+/**
+ * 一组平仓规则，按顺序检查，返回第一个触发的原因
+ */
+export class ExitPolicy {
+    public constructor(public readonly rules: ExitRule[]) {}
+
+    public evaluate(context: MarketContext, state: ExitState): ExitReason | null {
+        for (const rule of this.rules) {
+            if (rule.shouldExit(context, state)) {
+                return rule.reason;
+            }
+        }
+
+        return null;
+    }
+}
+
+/**
+ * 配置文件中的平仓规则，不配置的规则不启用
+ */
+export class ExitPolicyConfig {
+    @IsOptional() @IsNumber() @IsPositive() @Max(1)
+    public takeProfit?: number;         // 止盈: 买入价 + takeProfit
+
+    @IsOptional() @IsNumber() @Min(0)
+    public stopLossDeviation?: number;  // 止损: BTC 反向偏移超过 $stopLossDeviation
+
+    @IsOptional() @IsNumber() @IsPositive() @Max(1)
+    public trailingStop?: number;       // 移动止损: 从最高 bid 回撤 trailingStop
+
+    @IsOptional() @IsInt() @IsPositive()
+    public timeStopSeconds?: number;    // 时间止损: 周期结束前 N 秒
+}
+
+export function createExitRules(config: ExitPolicyConfig): ExitRule[] {
+    const rules: ExitRule[] = [];
+    if (config.takeProfit !== undefined) {
+        rules.push(new TakeProfitExitRule(config.takeProfit));
+    }
+    if (config.stopLossDeviation !== undefined) {
+        rules.push(new BtcStopLossExitRule(config.stopLossDeviation));
+    }
+    if (config.trailingStop !== undefined) {
+        rules.push(new TrailingStopExitRule(config.trailingStop));
+    }
+    if (config.timeStopSeconds !== undefined) {
+        rules.push(new TimeStopExitRule(config.timeStopSeconds));
+    }
+
+    return rules;
+}
@@ -0,0 +1,49 @@
+import { normalCdf } from "../../common/utils";
+import { PricePoint } from "../market-context";
+
+/**
+ * 已实现波动率：相邻价格点变化的平方和 / 时间间隔之和，返回每秒标准差
+ * 价格点的先后顺序不影响结果，有效样本数不足 minSamples 时返回 null
+ */
+export function realizedVolatility(prices: readonly PricePoint[], minSamples: number): number | null {
+    let samples = 0;
+    let sumSquaredChange = 0;
+    let sumSeconds = 0;
+    for (let i = 1; i < prices.length; i++) {
+        const seconds = Math.abs(prices[i].timestamp - prices[i - 1].timestamp) / 1000;
+        if (seconds <= 0) {
+            continue;
+        }
+
+        const change = prices[i].price - prices[i - 1].price;
+        samples++;
+        sumSquaredChange += change * change;
+        sumSeconds += seconds;
+    }
+
+    if (samples < minSamples || samples === 0) {
+        return null;
+    }
+
+    return Math.sqrt(sumSquaredChange / sumSeconds);
+}
+
+/**
+ * 结算价格服从均值为 price、标准差为 stdDev 的正态分布时，结算价格不低于 priceToBeat 的概率
+ * P = Φ((price - priceToBeat) / stdDev)，stdDev 为 0 时按当前价格判定，平价算 Up
+ */
+export function computeUpProbability(price: number, priceToBeat: number, stdDev: number): number {
+    if (!(stdDev > 0)) {
+        return price >= priceToBeat ? 1 : 0;
+    }
+
+    return normalCdf((price - priceToBeat) / stdDev);
+}
+
+/**
+ * Polymarket 每份 taker 手续费: price × feeRate × (price × (1 - price))^exponent
+ * 价格 0.5 附近最高，越接近 0 / 1 越低
+ */
+export function takerFeePerShare(price: number, feeRate: number, exponent: number): number {
+    return price * feeRate * Math.pow(price * (1 - price), exponent);
+}
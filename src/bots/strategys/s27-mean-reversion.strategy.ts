@@ -1,31 +1,37 @@
+import { IsNumber, IsPositive } from "class-validator";
 import { BaseStrategy, StrategyType } from "./base.strategy";
 
+export class S27MeanReversionParams {
+    @IsNumber() @IsPositive()
+    public peakThreshold: number = 30;     // BTC偏移达到$30
+
+    @IsNumber() @IsPositive()
+    public revertThreshold: number = 10;   // 回落到$10以内
+}
+
 // ========== 策略27: BTC偏移$30后回落到$10以内，买反向（均值回归） ==========
 // 使用Polymarket的BTC价格
-export class S27MeanReversionStrategy extends BaseStrategy {
+export class S27MeanReversionStrategy extends BaseStrategy<S27MeanReversionParams> {
     public readonly type: StrategyType = StrategyType.S27_MEAN_REVERSION;
     
     private hasTriggered: boolean = false;
     private peakReached: boolean = false;
     private trendDir: 'UP' | 'DOWN' | null = null;
-    
-    private readonly PEAK_THRESHOLD = 30;      // BTC偏移达到$30
-    private readonly REVERT_THRESHOLD = 10;    // 回落到$10以内
 
     public checkSignal(): [boolean, number] {
         if (this.hasTriggered) {
             return [false, -1];
         }
 
-        const historyBTCPrices = this.btc15mExecutor.historyBTCPrices;
+        const historyBTCPrices = this.context.getChainlinkPrices();
         if (historyBTCPrices.length < 2) {
             return [false, -1];
         }
 
-        const prices = this.btc15mExecutor.latestMarketPrices;
-        const outcome0 = this.btc15mExecutor.outcomes[0];
+        const prices = this.context.getOutcomePrices();
+        const outcome0 = this.context.outcomes[0];
         const outcome0Price = prices[outcome0];
-        const outcome1 = this.btc15mExecutor.outcomes[1];
+        const outcome1 = this.context.outcomes[1];
         const outcome1Price = prices[outcome1];
 
         // 基准价格是最早的BTC价格（周期开始时的价格）
@@ -34,18 +40,18 @@ export class S27MeanReversionStrategy extends BaseStrategy {
         const deviation = currentBtcPrice - baselinePrice;
 
         // 检查是否达到峰值
-        if (!this.peakReached && Math.abs(deviation) >= this.PEAK_THRESHOLD) {
+        if (!this.peakReached && Math.abs(deviation) >= this.params.peakThreshold) {
             this.peakReached = true;
             this.trendDir = deviation > 0 ? 'UP' : 'DOWN';
         }
 
         // 达到峰值后，检查是否回落到$10以内
         if (this.peakReached && this.trendDir !== null) {
-            if (Math.abs(deviation) < this.REVERT_THRESHOLD) {
+            if (Math.abs(deviation) < this.params.revertThreshold) {
                 this.hasTriggered = true;
                 // 买反向（均值回归）
                 const bidDirection = this.trendDir === 'UP' ? 'DOWN' : 'UP';
-                const outcomeIndex = this.btc15mExecutor.outcomes.findIndex(
+                const outcomeIndex = this.context.outcomes.findIndex(
                     outcome => outcome.toLowerCase() === bidDirection.toLowerCase()
                 );
                 const bidPrice = bidDirection === 'UP' ? outcome0Price : outcome1Price;
@@ -1,27 +1,32 @@
+import { IsNumber, IsPositive } from "class-validator";
 import { BaseStrategy, StrategyType } from "./base.strategy";
 
+export class S31InvertParams {
+    @IsNumber() @IsPositive()
+    public changeThreshold: number = 20;   // BTC偏移变化阈值 $20
+}
+
 // ========== 策略31: BTC偏移变化$20以上且方向反转，买反转后方向（模拟下注） ==========
-export class S31InvertStrategy extends BaseStrategy {
+export class S31InvertStrategy extends BaseStrategy<S31InvertParams> {
     public readonly type: StrategyType = StrategyType.S31_INVERT;
     
     private s31HasSimulatedBid: boolean = false;
     private s31PrevDeviation: number | null = null;
-    private readonly S31_CHANGE_THRESHOLD = 20;
 
     public checkSignal(): [boolean, number] {
         if (this.s31HasSimulatedBid) {
             return [false, -1];
         }
 
-        const historyBTCPrices = this.btc15mExecutor.historyBTCPrices;
+        const historyBTCPrices = this.context.getChainlinkPrices();
         if (historyBTCPrices.length < 2) {
             return [false, -1];
         }
 
-        const prices = this.btc15mExecutor.latestMarketPrices;
-        const outcome0 = this.btc15mExecutor.outcomes[0];
+        const prices = this.context.getOutcomePrices();
+        const outcome0 = this.context.outcomes[0];
         const outcome0Price = prices[outcome0];
-        const outcome1 = this.btc15mExecutor.outcomes[1];
+        const outcome1 = this.context.outcomes[1];
         const outcome1Price = prices[outcome1];
 
         // 基准价格是最早的BTC价格（周期开始时的价格）
@@ -36,11 +41,11 @@ export class S31InvertStrategy extends BaseStrategy {
             const directionChanged = (this.s31PrevDeviation > 0 && currentDeviation < 0) ||
                 (this.s31PrevDeviation < 0 && currentDeviation > 0);
 
-            if (deviationChange >= this.S31_CHANGE_THRESHOLD && directionChanged) {
+            if (deviationChange >= this.params.changeThreshold && directionChanged) {
                 this.s31HasSimulatedBid = true;
                 // 买反转后的方向：currentDeviation > 0 → UP, currentDeviation < 0 → DOWN
                 const bidDirection = currentDeviation > 0 ? 'UP' : 'DOWN';
-                const outcomeIndex = this.btc15mExecutor.outcomes.findIndex(outcome => outcome.toLowerCase() === bidDirection.toLowerCase());
+                const outcomeIndex = this.context.outcomes.findIndex(outcome => outcome.toLowerCase() === bidDirection.toLowerCase());
                 const bidPrice = bidDirection === 'UP' ? outcome0Price : outcome1Price;
 
                 const logString = `\n[S31] 🔄 方向反转触发\n` +
@@ -1,28 +1,33 @@
+import { IsNumber, IsPositive } from "class-validator";
 import { BaseStrategy, StrategyType } from "./base.strategy";
 
+export class S34InvertAggregatedParams {
+    @IsNumber() @IsPositive()
+    public changeThreshold: number = 20;   // BTC偏移变化阈值 $20
+}
+
 // ========== 策略34: 基于聚合BTC价格的方向反转策略 ==========
 // 与S31相同逻辑，但使用多交易所聚合的BTC价格而非Polymarket的BTC价格
-export class S34InvertAggregatedStrategy extends BaseStrategy {
+export class S34InvertAggregatedStrategy extends BaseStrategy<S34InvertAggregatedParams> {
     public readonly type: StrategyType = StrategyType.S34_INVERT_AGGREGATED;
     
     private hasTriggered: boolean = false;
     private prevDeviation: number | null = null;
-    private readonly CHANGE_THRESHOLD = 20;  // BTC偏移变化阈值 $20
 
     public checkSignal(): [boolean, number] {
         if (this.hasTriggered) {
             return [false, -1];
         }
 
-        const aggregatedPrices = this.btc15mExecutor.getCurrentAggregatedPrices();
+        const aggregatedPrices = this.context.getAggregatedPrices();
         if (!aggregatedPrices || aggregatedPrices.length < 2) {
             return [false, -1];
         }
 
-        const prices = this.btc15mExecutor.latestMarketPrices;
-        const outcome0 = this.btc15mExecutor.outcomes[0];
+        const prices = this.context.getOutcomePrices();
+        const outcome0 = this.context.outcomes[0];
         const outcome0Price = prices[outcome0];
-        const outcome1 = this.btc15mExecutor.outcomes[1];
+        const outcome1 = this.context.outcomes[1];
         const outcome1Price = prices[outcome1];
 
         // 基准价格是最早的聚合BTC价格（周期开始时的价格）
@@ -37,11 +42,11 @@ export class S34InvertAggregatedStrategy extends BaseStrategy {
             const directionChanged = (this.prevDeviation > 0 && currentDeviation < 0) ||
                 (this.prevDeviation < 0 && currentDeviation > 0);
 
-            if (deviationChange >= this.CHANGE_THRESHOLD && directionChanged) {
+            if (deviationChange >= this.params.changeThreshold && directionChanged) {
                 this.hasTriggered = true;
                 // 买反转后的方向：currentDeviation > 0 → UP, currentDeviation < 0 → DOWN
                 const bidDirection = currentDeviation > 0 ? 'UP' : 'DOWN';
-                const outcomeIndex = this.btc15mExecutor.outcomes.findIndex(
+                const outcomeIndex = this.context.outcomes.findIndex(
                     outcome => outcome.toLowerCase() === bidDirection.toLowerCase()
                 );
                 const bidPrice = bidDirection === 'UP' ? outcome0Price : outcome1Price;
@@ -1,24 +1,32 @@
+import { IsInt, IsNumber, IsPositive, Min } from "class-validator";
 import { BaseStrategy, StrategyType } from "./base.strategy";
 
+export class S35MeanReversionAggregatedParams {
+    @IsNumber() @IsPositive()
+    public peakThreshold: number = 30;     // BTC偏移达到$30
+
+    @IsNumber() @IsPositive()
+    public revertThreshold: number = 10;   // 回落阈值
+
+    @IsInt() @Min(0)
+    public minDelayMs: number = 60 * 1000; // 周期开始1分钟后才触发
+}
+
 // ========== 策略35: 基于聚合BTC价格的均值回归 ==========
 // 与S27相同逻辑，但使用多交易所聚合的BTC价格
-export class S35MeanReversionAggregatedStrategy extends BaseStrategy {
+export class S35MeanReversionAggregatedStrategy extends BaseStrategy<S35MeanReversionAggregatedParams> {
     public readonly type: StrategyType = StrategyType.S35_MEAN_REVERSION_AGGREGATED;
     
     private hasTriggered: boolean = false;
     private peakReached: boolean = false;
     private trendDir: 'UP' | 'DOWN' | null = null;
-    
-    private readonly PEAK_THRESHOLD = 30;      // BTC偏移达到$30
-    private readonly REVERT_THRESHOLD = 10;    // 回落到$10以内
-    private readonly MIN_DELAY_MS = 60 * 1000; // 周期开始1分钟后才触发
 
     public checkSignal(): [boolean, number] {
         if (this.hasTriggered) {
             return [false, -1];
         }
 
-        const aggregatedPrices = this.btc15mExecutor.getCurrentAggregatedPrices();
+        const aggregatedPrices = this.context.getAggregatedPrices();
         if (!aggregatedPrices || aggregatedPrices.length < 2) {
             return [false, -1];
         }
@@ -26,14 +34,14 @@ export class S35MeanReversionAggregatedStrategy extends BaseStrategy {
         // 检查是否已过周期开始1分钟
         const cycleStartTime = aggregatedPrices[aggregatedPrices.length - 1].timestamp;
         const currentTime = aggregatedPrices[0].timestamp;
-        if (currentTime - cycleStartTime < this.MIN_DELAY_MS) {
+        if (currentTime - cycleStartTime < this.params.minDelayMs) {
             return [false, -1];
         }
 
-        const prices = this.btc15mExecutor.latestMarketPrices;
-        const outcome0 = this.btc15mExecutor.outcomes[0];
+        const prices = this.context.getOutcomePrices();
+        const outcome0 = this.context.outcomes[0];
         const outcome0Price = prices[outcome0];
-        const outcome1 = this.btc15mExecutor.outcomes[1];
+        const outcome1 = this.context.outcomes[1];
         const outcome1Price = prices[outcome1];
 
         // 基准价格是最早的聚合BTC价格（周期开始时的价格）
@@ -42,18 +50,18 @@ export class S35MeanReversionAggregatedStrategy extends BaseStrategy {
         const deviation = currentBtcPrice - baselinePrice;
 
         // 检查是否达到峰值
-        if (!this.peakReached && Math.abs(deviation) >= this.PEAK_THRESHOLD) {
+        if (!this.peakReached && Math.abs(deviation) >= this.params.peakThreshold) {
             this.peakReached = true;
             this.trendDir = deviation > 0 ? 'UP' : 'DOWN';
         }
 
         // 达到峰值后，检查是否回落到$10以内（绝对值）
         if (this.peakReached && this.trendDir !== null) {
-            if (Math.abs(deviation) < this.REVERT_THRESHOLD) {
+            if (Math.abs(deviation) < this.params.revertThreshold) {
                 this.hasTriggered = true;
                 // 买反向（均值回归）
                 const bidDirection = this.trendDir === 'UP' ? 'DOWN' : 'UP';
-                const outcomeIndex = this.btc15mExecutor.outcomes.findIndex(
+                const outcomeIndex = this.context.outcomes.findIndex(
                     outcome => outcome.toLowerCase() === bidDirection.toLowerCase()
                 );
                 const bidPrice = bidDirection === 'UP' ? outcome0Price : outcome1Price;
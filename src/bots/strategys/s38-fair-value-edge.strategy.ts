@@ -0,0 +1,84 @@
+import { IsInt, IsNumber, IsPositive, Max, Min } from "class-validator";
+import { BaseStrategy, StrategyType } from "./base.strategy";
+import { takerFeePerShare } from "./fair-value";
+
+export class S38FairValueEdgeParams {
+    @IsNumber() @IsPositive() @Max(1)
+    public edge: number = 0.05;                   // 扣除手续费后理论概率至少高出价格 5%
+
+    @IsInt() @Min(0)
+    public minDelayMs: number = 1 * 60 * 1000;    // 1分钟后开始，波动率样本足够
+
+    @IsInt() @Min(0)
+    public minRemainingMs: number = 30 * 1000;    // 周期结束前30秒截止
+
+    @IsNumber() @Min(0)
+    public feeRate: number = 0.25;                // taker 手续费系数
+
+    @IsNumber() @Min(0)
+    public feeExponent: number = 2;               // taker 手续费指数
+}
+
+// ========== 策略38: 理论概率 vs 市场价格 ==========
+// 理论概率取 ChainlinkPredictor 按 price to beat 计算的 P(结算时 Chainlink 价格 >= price to beat)
+// 市场价格（best ask + 手续费）比理论概率低 edge 以上时买入
+export class S38FairValueEdgeStrategy extends BaseStrategy<S38FairValueEdgeParams> {
+    public readonly type: StrategyType = StrategyType.S38_FAIR_VALUE_EDGE;
+
+    private hasTriggered: boolean = false;
+
+    public checkSignal(): [boolean, number] {
+        if (this.hasTriggered) {
+            return [false, -1];
+        }
+
+        const elapsedMs = this.context.getElapsedMs();
+        const remainingMs = this.context.getCycleDurationMs() - elapsedMs;
+        if (elapsedMs < this.params.minDelayMs || remainingMs < this.params.minRemainingMs) {
+            return [false, -1];
+        }
+
+        const prediction = this.context.getChainlinkPrediction();
+        if (!prediction) {
+            return [false, -1];
+        }
+
+        const prices = this.context.getOutcomePrices();
+        let bestOutcomeIndex = -1;
+        let bestEdge = 0;
+        for (let outcomeIndex = 0; outcomeIndex < this.context.outcomes.length; outcomeIndex++) {
+            const outcome = this.context.outcomes[outcomeIndex];
+            const price = prices[outcome];
+            if (!price || !Number.isFinite(price) || price <= 0 || price >= 1) {
+                continue;
+            }
+
+            const fairValue = this.getFairValue(outcomeIndex);
+            if (fairValue === null) {
+                continue;
+            }
+
+            const cost = price + takerFeePerShare(price, this.params.feeRate, this.params.feeExponent);
+            const edge = fairValue - cost;
+            if (edge >= this.params.edge && edge > bestEdge) {
+                bestOutcomeIndex = outcomeIndex;
+                bestEdge = edge;
+            }
+        }
+
+        if (bestOutcomeIndex === -1) {
+            return [false, -1];
+        }
+
+        this.hasTriggered = true;
+
+        const outcome = this.context.outcomes[bestOutcomeIndex];
+        const logString = `\n[S38] 🎯 理论概率高于市场价格\n` +
+            `预测价格: $${prediction.nextPrice.toFixed(2)} | 基准价格: $${prediction.priceToBeat.toFixed(2)} | 结算标准差: $${prediction.settlementStdDev.toFixed(2)} | 剩余: ${(remainingMs / 1000).toFixed(0)}s\n` +
+            `Up理论概率: ${(prediction.upProbability * 100).toFixed(2)}%\n` +
+            `买入方向: ${outcome.toUpperCase()} @ ${(prices[outcome] * 100).toFixed(2)}% | 优势: ${(bestEdge * 100).toFixed(2)}%\n`;
+        console.log(logString);
+
+        return [true, bestOutcomeIndex];
+    }
+}
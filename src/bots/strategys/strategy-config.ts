@@ -0,0 +1,138 @@
+import * as Fs from 'fs';
+import { plainToInstance } from 'class-transformer';
+import { IsBoolean, IsEnum, IsNumber, IsObject, IsOptional, IsPositive, validateSync, ValidationError } from 'class-validator';
+import { StrategyMode, StrategyType } from './base.strategy';
+import { ExitPolicyConfig } from './exit-rules';
+import { buildStrategyParams } from './strategy-registry';
+
+export const DEFAULT_STRATEGY_CONFIG_PATH = './config/strategys.json';
+
+/**
+ * 单个策略配置
+ */
+export class StrategyConfigItem {
+    @IsEnum(StrategyType)
+    public type: StrategyType;
+
+    @IsOptional() @IsBoolean()
+    public enabled: boolean = true;
+
+    @IsEnum(StrategyMode)
+    public mode: StrategyMode = StrategyMode.SIMULATE;
+
+    @IsNumber() @IsPositive()
+    public stake: number = 1;   // 每次下注金额 (USDC)
+
+    @IsOptional() @IsObject()
+    public params: object = {}; // 校验后替换为策略对应的 Params 实例
+
+    @IsOptional() @IsObject()
+    public exit: ExitPolicyConfig = {};  // 平仓规则，校验后替换为 ExitPolicyConfig 实例
+
+    @IsOptional() @IsBoolean()
+    public requireConfirmedBaseline: boolean = false;  // 基准价格确认前不触发
+}
+
+export interface StrategyConfig {
+    strategys: StrategyConfigItem[];
+}
+
+function formatValidationErrors(errors: ValidationError[]): string {
+    return errors
+        .map((error) => `${error.property}: ${Object.values(error.constraints ?? {}).join(', ')}`)
+        .join('; ');
+}
+
+/**
+ * 校验并解析策略配置，配置不合法时抛出异常
+ */
+export function parseStrategyConfig(raw: any): StrategyConfig {
+    if (!raw || !Array.isArray(raw.strategys)) {
+        throw new Error('Invalid strategy config: "strategys" must be an array');
+    }
+
+    const seen = new Set<StrategyType>();
+    const strategys = raw.strategys.map((plain: object, index: number) => {
+        const item = plainToInstance(StrategyConfigItem, plain, { exposeDefaultValues: true });
+        const errors = validateSync(item, { forbidUnknownValues: true });
+        if (errors.length > 0) {
+            throw new Error(`Invalid strategy config at strategys[${index}]: ${formatValidationErrors(errors)}`);
+        }
+
+        if (seen.has(item.type)) {
+            throw new Error(`Invalid strategy config: duplicated strategy ${item.type}`);
+        }
+        seen.add(item.type);
+
+        try {
+            item.params = buildStrategyParams(item.type, item.params ?? {});
+        } catch (error) {
+            throw new Error(`Invalid strategy config at strategys[${index}] (${item.type}): ${error.message}`);
+        }
+
+        const exit = plainToInstance(ExitPolicyConfig, item.exit ?? {});
+        const exitErrors = validateSync(exit, { whitelist: true, forbidNonWhitelisted: true });
+        if (exitErrors.length > 0) {
+            throw new Error(`Invalid strategy config at strategys[${index}] (${item.type}) exit: ${formatValidationErrors(exitErrors)}`);
+        }
+        item.exit = exit;
+
+        return item;
+    });
+
+    return { strategys };
+}
+
+/**
+ * 默认配置：全部策略启用，只模拟，参数使用策略默认值
+ */
+export function getDefaultStrategyConfig(): StrategyConfig {
+    return parseStrategyConfig({
+        strategys: Object.values(StrategyType).map((type) => ({ type })),
+    });
+}
+
+/**
+ * 策略配置加载器
+ * 启动时 load() 校验失败直接抛出；周期切换时 reload()，文件有变更才重新加载，
+ * 新配置不合法时保留旧配置继续运行
+ */
+export class StrategyConfigLoader {
+    private config: StrategyConfig = null;
+    private lastModifiedMs: number = 0;
+
+    public constructor(private readonly path: string = DEFAULT_STRATEGY_CONFIG_PATH) {}
+
+    public load(): StrategyConfig {
+        const stat = Fs.statSync(this.path);
+        const config = parseStrategyConfig(JSON.parse(Fs.readFileSync(this.path, 'utf-8')));
+
+        this.config = config;
+        this.lastModifiedMs = stat.mtimeMs;
+        return config;
+    }
+
+    public reload(): StrategyConfig {
+        if (!this.config) {
+            return this.load();
+        }
+
+        try {
+            const stat = Fs.statSync(this.path);
+            if (stat.mtimeMs === this.lastModifiedMs) {
+                return this.config;
+            }
+
+            this.load();
+            console.log(`\n[StrategyConfigLoader] 🔄 Reloaded ${this.path}`);
+        } catch (error) {
+            console.error(`\n[StrategyConfigLoader] reload failed, keep previous config: ${error.message}`);
+        }
+
+        return this.config;
+    }
+
+    public getConfig(): StrategyConfig {
+        return this.config;
+    }
+}
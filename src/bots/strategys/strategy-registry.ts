@@ -0,0 +1,74 @@
+import { plainToInstance } from "class-transformer";
+import { validateSync } from "class-validator";
+import { MarketContext } from "../market-context";
+import { BaseStrategy, StrategyMode, StrategyOptions, StrategyType } from "./base.strategy";
+import { StrategyConfig } from "./strategy-config";
+import { S27MeanReversionParams, S27MeanReversionStrategy } from "./s27-mean-reversion.strategy";
+import { S31InvertParams, S31InvertStrategy } from "./s31-invert.strategy";
+import { S34InvertAggregatedParams, S34InvertAggregatedStrategy } from "./s34-invert-aggregated.strategy";
+import { S35MeanReversionAggregatedParams, S35MeanReversionAggregatedStrategy } from "./s35-mean-reversion-aggregated.strategy";
+import { S36MeanReversionExtendedParams, S36MeanReversionExtendedStrategy } from "./s36-mean-reversion-extended.strategy";
+import { S37MeanReversionTakeProfitParams, S37MeanReversionTakeProfitStrategy } from "./s37-mean-reversion-take-profit.strategy";
+import { S38FairValueEdgeParams, S38FairValueEdgeStrategy } from "./s38-fair-value-edge.strategy";
+
+type StrategyClass<P extends object> = new (context: MarketContext, options: StrategyOptions<P>) => BaseStrategy<P>;
+
+interface StrategyRegistryEntry<P extends object = object> {
+    strategy: StrategyClass<P>;
+    params: new () => P;
+}
+
+/**
+ * 参数类型由策略类推导，参数类与策略不匹配时编译报错
+ */
+function register<P extends object>(strategy: StrategyClass<P>, params: new () => NoInfer<P>): StrategyRegistryEntry<P> {
+    return { strategy, params };
+}
+
+/**
+ * 策略注册表：StrategyType -> 策略类 + 参数类
+ * 新增策略需要在这里注册才能通过配置文件启用
+ */
+export const STRATEGY_REGISTRY: Record<StrategyType, StrategyRegistryEntry> = {
+    [StrategyType.S27_MEAN_REVERSION]: register(S27MeanReversionStrategy, S27MeanReversionParams),
+    [StrategyType.S31_INVERT]: register(S31InvertStrategy, S31InvertParams),
+    [StrategyType.S34_INVERT_AGGREGATED]: register(S34InvertAggregatedStrategy, S34InvertAggregatedParams),
+    [StrategyType.S35_MEAN_REVERSION_AGGREGATED]: register(S35MeanReversionAggregatedStrategy, S35MeanReversionAggregatedParams),
+    [StrategyType.S36_MEAN_REVERSION_EXTENDED]: register(S36MeanReversionExtendedStrategy, S36MeanReversionExtendedParams),
+    [StrategyType.S37_MEAN_REVERSION_TAKE_PROFIT]: register(S37MeanReversionTakeProfitStrategy, S37MeanReversionTakeProfitParams),
+    [StrategyType.S38_FAIR_VALUE_EDGE]: register(S38FairValueEdgeStrategy, S38FairValueEdgeParams),
+};
+
+/**
+ * 将配置中的 params 转为策略参数类实例并校验，未配置的字段使用默认值
+ */
+export function buildStrategyParams(type: StrategyType, raw: object): object {
+    const entry = STRATEGY_REGISTRY[type];
+    if (!entry) {
+        throw new Error(`Strategy not registered: ${type}`);
+    }
+
+    const params = plainToInstance(entry.params, raw, { exposeDefaultValues: true });
+    const errors = validateSync(params, { whitelist: true, forbidNonWhitelisted: true });
+    if (errors.length > 0) {
+        throw new Error(errors.map((error) => `${error.property}: ${Object.values(error.constraints ?? {}).join(', ')}`).join('; '));
+    }
+
+    return params;
+}
+
+/**
+ * 按配置创建一个周期内运行的全部策略实例
+ * 实盘 executor 和回测 executor 共用，保证两边跑的是同一套策略
+ */
+export function createStrategys(context: MarketContext, config: StrategyConfig): BaseStrategy[] {
+    return config.strategys
+        .filter((item) => item.enabled)
+        .map((item) => new STRATEGY_REGISTRY[item.type].strategy(context, {
+            params: item.params,
+            canBid: item.mode === StrategyMode.LIVE,
+            stake: item.stake,
+            exit: item.exit,
+            requireConfirmedBaseline: item.requireConfirmedBaseline,
+        }));
+}
@@ -0,0 +1,45 @@
+import { PricePoint } from './market-context';
+
+/** 预测价格相对 Chainlink 的跟踪误差（误差 = 预测 - Chainlink） */
+export interface TrackingError {
+    samples: number;
+    bias: number;           // 平均误差
+    meanAbsError: number;
+    rmse: number;
+}
+
+/**
+ * 计算预测价格序列相对 Chainlink 的跟踪误差
+ * 每个 Chainlink 价格点取该时刻之前最近的一个预测价格（只用已知信息，不看未来）
+ */
+export function computeTrackingError(predicted: readonly PricePoint[], chainlink: readonly PricePoint[]): TrackingError {
+    const predictedAsc = [...predicted].sort((a, b) => a.timestamp - b.timestamp);
+    const chainlinkAsc = [...chainlink].sort((a, b) => a.timestamp - b.timestamp);
+
+    let samples = 0;
+    let sumError = 0;
+    let sumAbsError = 0;
+    let sumSquaredError = 0;
+    let index = -1;
+    for (const point of chainlinkAsc) {
+        while (index + 1 < predictedAsc.length && predictedAsc[index + 1].timestamp <= point.timestamp) {
+            index++;
+        }
+        if (index < 0) {
+            continue;
+        }
+
+        const error = predictedAsc[index].price - point.price;
+        samples++;
+        sumError += error;
+        sumAbsError += Math.abs(error);
+        sumSquaredError += error * error;
+    }
+
+    return {
+        samples,
+        bias: samples > 0 ? sumError / samples : 0,
+        meanAbsError: samples > 0 ? sumAbsError / samples : 0,
+        rmse: samples > 0 ? Math.sqrt(sumSquaredError / samples) : 0,
+    };
+}
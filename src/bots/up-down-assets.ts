@@ -0,0 +1,69 @@
+import { DEFAULT_STRATEGY_CONFIG_PATH } from './strategys/strategy-config';
+
+/**
+ * Up/Down 市场的标的资产
+ */
+export interface UpDownAsset {
+    symbol: string;             // slug 前缀（btc -> btc-updown-15m-*），也用于查交易所交易对
+    chainlinkSymbol: string;    // live-data crypto_prices_chainlink 订阅的 symbol
+    chainlinkFeedId: string;    // Chainlink Data Streams feed id，用于查询 price to beat
+    minPriceChange: number;     // 聚合价格最小变动，低价币需要更小的精度
+}
+
+export type UpDownInterval = '5m' | '15m';
+
+export const UP_DOWN_INTERVAL_SECONDS: Record<UpDownInterval, number> = {
+    '5m': 5 * 60,
+    '15m': 15 * 60,
+};
+
+export const UP_DOWN_ASSETS: Record<string, UpDownAsset> = {
+    btc: {
+        symbol: 'btc',
+        chainlinkSymbol: 'btc/usd',
+        chainlinkFeedId: '0x00039d9e45394f473ab1f050a1b963e6b05351e52d71e507509ada0c95ed75b8',
+        minPriceChange: 0.01,
+    },
+    eth: {
+        symbol: 'eth',
+        chainlinkSymbol: 'eth/usd',
+        chainlinkFeedId: '0x000362205e10b3a147d02792eccee483dca6c7b44ecce7012cb8c6e0b68b3ae9',
+        minPriceChange: 0.01,
+    },
+    sol: {
+        symbol: 'sol',
+        chainlinkSymbol: 'sol/usd',
+        chainlinkFeedId: '0x0003b778d3f6b2ac4991302b89cb313f99a42467d6c9c5f96f57c29c0d2bc24f',
+        minPriceChange: 0.001,
+    },
+    xrp: {
+        symbol: 'xrp',
+        chainlinkSymbol: 'xrp/usd',
+        chainlinkFeedId: '0x0003c16c6aed42294f5cb4741f6e59ba2d728f0eae2eb9e6d3f555808c59fc45',
+        minPriceChange: 0.00001,
+    },
+};
+
+export function getUpDownAsset(symbol: string): UpDownAsset {
+    const asset = UP_DOWN_ASSETS[symbol.trim().toLowerCase()];
+    if (!asset) {
+        throw new Error(`Unsupported asset: ${symbol}, expected one of ${Object.keys(UP_DOWN_ASSETS).join(', ')}`);
+    }
+
+    return asset;
+}
+
+export function isUpDownInterval(interval: string): interval is UpDownInterval {
+    return interval in UP_DOWN_INTERVAL_SECONDS;
+}
+
+/**
+ * 策略配置文件路径：BTC 沿用原有文件，其他资产按 资产-周期 区分（价格阈值以美元计，各资产不同）
+ */
+export function getStrategyConfigPath(asset: UpDownAsset, interval: UpDownInterval): string {
+    if (asset.symbol === 'btc') {
+        return interval === '15m' ? DEFAULT_STRATEGY_CONFIG_PATH : './config/strategys-5m.json';
+    }
+
+    return `./config/strategys-${asset.symbol}-${interval}.json`;
+}
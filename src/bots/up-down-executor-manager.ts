@@ -0,0 +1,61 @@
+import * as Fs from 'fs';
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PolymarketApiService } from '../services/polymarket-api.service';
+import { PolymarketTrader } from './polymarket-trader';
+import { getStrategyConfigPath, getUpDownAsset, isUpDownInterval } from './up-down-assets';
+import { UpDownExecutor } from './up-down-executor';
+
+export const UP_DOWN_EXECUTOR_COMMAND = 'up-down-executor';
+
+/**
+ * 在一个进程里运行多个资产的 Up/Down executor
+ * executor 不是 Nest provider，定时任务由这里统一驱动
+ */
+@Injectable()
+export class UpDownExecutorManager {
+    private executors: UpDownExecutor[] = [];
+
+    public constructor(
+        private readonly polymarketApiService: PolymarketApiService,
+        private readonly polymarketTrader: PolymarketTrader,
+    ) {}
+
+    /**
+     * @param assets 资产列表，如 ['eth', 'sol']
+     * @param interval 周期，5m / 15m
+     */
+    public async execute(assets: string[], interval: string) {
+        if (!isUpDownInterval(interval)) {
+            throw new Error(`Unsupported interval: ${interval}, expected 5m or 15m`);
+        }
+
+        const upDownAssets = assets.map((symbol) => getUpDownAsset(symbol));
+
+        // 没有策略配置的 资产/周期 组合直接拒绝，避免 executor 启动时读取配置失败
+        const missingConfigs = upDownAssets
+            .map((asset) => ({ asset, path: process.env.STRATEGY_CONFIG_PATH || getStrategyConfigPath(asset, interval) }))
+            .filter(({ path }) => !Fs.existsSync(path));
+        if (missingConfigs.length > 0) {
+            const details = missingConfigs.map(({ asset, path }) => `${asset.symbol} ${interval} (${path})`).join(', ');
+            throw new Error(`Unsupported asset/interval, strategy config not found: ${details}`);
+        }
+
+        this.executors = upDownAssets.map((asset) => new UpDownExecutor(this.polymarketApiService, this.polymarketTrader, {
+            command: UP_DOWN_EXECUTOR_COMMAND,
+            asset,
+            interval,
+        }));
+
+        await Promise.all(this.executors.map((executor) => executor.execute()));
+    }
+
+    @Cron(CronExpression.EVERY_SECOND)
+    public async onInterval() {
+        if (process.env.COMMAND !== UP_DOWN_EXECUTOR_COMMAND) {
+            return;
+        }
+
+        await Promise.all(this.executors.map((executor) => executor.onInterval()));
+    }
+}
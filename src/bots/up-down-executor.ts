@@ -0,0 +1,662 @@
+import { PolymarketApiService } from '../services/polymarket-api.service';
+import { OrderBookManager } from '../libs/polymarket-order-book/order-book-manager';
+import { MarketOrderBookOptions, MultiMarketOrderBookManager } from '../libs/polymarket-order-book/multi-market-order-book-manager';
+import { WsMessageRecorder } from '../libs/polymarket-order-book/ws-message-recorder';
+import { PolymarketTrader } from './polymarket-trader';
+import { IMarket, IOrderBookEvent } from '../libs/polymarket-order-book/interfaces';
+import { OrderSummary, OrderType, Side } from '@polymarket/clob-client';
+import { calculateBuyMarketPrice } from '../libs/polymarket-order-book/utils';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { WebSocketConnection } from '../libs/websocket-connection';
+import { IS_DEVELOPMENT, POLYMARKET_LIVE_DATA_WS_URL } from '../common/common-types';
+import { AggregatedPriceService } from '../libs/aggregated-price/aggregated-price-service';
+import { AggregatedPriceData, AggregationMode } from '../libs/aggregated-price/interfaces';
+import { BaseStrategy } from './strategys/base.strategy';
+import { createStrategys } from './strategys/strategy-registry';
+import { StrategyConfigLoader } from './strategys/strategy-config';
+import { MarketContext, PricePoint } from './market-context';
+import { PositionExit, PositionManager } from './position-manager';
+import { ChainlinkTrackingMonitor, ChainlinkTrackingStats } from './chainlink-tracking-monitor';
+import { ChainlinkPrediction, ChainlinkPredictor } from './chainlink-predictor';
+import { PriceToBeatResolver } from './price-to-beat-resolver';
+import { CycleSettler } from './cycle-settlement';
+import { NextMarketPrewarmer } from './next-market-prewarmer';
+import { CycleEventSink, CycleStorage } from '../libs/cycle-storage/interfaces';
+import { createCycleEventSink, getCycleStorage } from '../libs/cycle-storage/cycle-storage-factory';
+import { CycleRecorder } from '../libs/cycle-storage/cycle-recorder';
+import { getStrategyConfigPath, UP_DOWN_INTERVAL_SECONDS, UpDownAsset, UpDownInterval } from './up-down-assets';
+
+export interface UpDownExecutorOptions {
+    command: string;            // console 命令，只有 process.env.COMMAND 匹配时定时任务才运行
+    asset: UpDownAsset;
+    interval: UpDownInterval;   // 周期长度，slug 时间戳按此对齐
+    cycleStorage?: CycleStorage;    // 默认按 CYCLE_STORAGE 创建
+    eventSink?: CycleEventSink;     // 默认按 CYCLE_EVENT_SINK 创建，测试时传入 MemoryCycleEventSink
+}
+
+/**
+ * Up/Down 周期市场 executor
+ *
+ * 周期切换、订单簿订阅、Chainlink 价格采集、策略检查、持仓平仓、结果保存都在这里，
+ * 按资产和周期参数化（btc/eth/sol/xrp × 5m/15m）
+ */
+export class UpDownExecutor implements MarketContext {
+    public static supportTradeMode: boolean = true;
+    public outcomes: string[] = [];
+
+    protected readonly name: string;
+    private readonly slugPrefix: string;
+    private readonly intervalSeconds: number;
+
+    private historyBTCPrices: PricePoint[] = [];
+    private historyBTCAggregatedPricesMap: Record<string, PricePoint[]> = {};
+    private historyAggregatedModePricesMap: Record<string, { timestamp: number; modePrices: Record<AggregationMode, number | null> }[]> = {};
+    private latestMarketPrices: Record<string, number> = {};
+
+    private canInterval = true;
+    private canBidStartDate = new Date('2026-01-25T22:00:00.000Z');
+    private canBidEndDate = new Date('2026-01-20T09:00:00.000Z');
+    private canBid = !IS_DEVELOPMENT;
+    private usdeStopLossLine: number = 3; // 3 USDE
+    private market: IMarket = null;
+    private tokenIds: string[] = [];
+    private bidResults: { outcome: string; price: number; shares: number; timestamp: string; createOrderCost: number; postOrderCost: number; type: string; exit?: PositionExit }[] = [];
+    private simulatedBidResults: { outcome: string; price: number; shares: number; timestamp: string; type: string; exit?: PositionExit }[] = [];
+    private amountBid: number = 1;  // 预热 buildOrder 用，实际下注金额见策略配置 stake
+    private historyPriceRecords: { timestamp: number;[key: string]: any }[] = [];
+    private isExecuting: boolean = false;  // 防止并发执行
+
+    private orderBookManager: OrderBookManager = null;
+    private orderBookHub: MultiMarketOrderBookManager = null;  // 所有周期共用一个订单簿连接
+    private marketLiveDataConnection: WebSocketConnection = null;
+    private btcAggregatedPriceService: AggregatedPriceService = null;
+    private strategys: BaseStrategy[] = [];
+    private strategyConfigLoader: StrategyConfigLoader = null;
+    private positionManager: PositionManager = null;
+    private chainlinkTrackingMonitor = new ChainlinkTrackingMonitor();
+    private chainlinkPredictor = new ChainlinkPredictor();
+    private priceToBeatResolver: PriceToBeatResolver = null;
+    private cycleSettler: CycleSettler = null;
+    private cycleStorage: CycleStorage = null;
+    private recorder: CycleRecorder = null;
+    private lastConsistencyCheckAt: number = 0;
+    private nextMarketPrewarmer: NextMarketPrewarmer = null;
+    private isPrewarmedCycle: boolean = false;
+    private isFirstUsableBookPending: boolean = false;
+
+    public constructor(
+        private readonly polymarketApiService: PolymarketApiService,
+        private readonly polymarketTrader: PolymarketTrader,
+        private readonly options: UpDownExecutorOptions,
+    ) {
+        // 如 BTC15MExecutor / ETH5MExecutor
+        this.name = `${options.asset.symbol.toUpperCase()}${options.interval.toUpperCase()}Executor`;
+        this.slugPrefix = `${options.asset.symbol}-updown-${options.interval}`;
+        this.intervalSeconds = UP_DOWN_INTERVAL_SECONDS[options.interval];
+
+        this.strategyConfigLoader = new StrategyConfigLoader(process.env.STRATEGY_CONFIG_PATH || getStrategyConfigPath(options.asset, options.interval));
+        this.btcAggregatedPriceService = new AggregatedPriceService({
+            symbol: options.asset.symbol,
+            silent: true,  // 静默模式，避免干扰终端单行输出
+            mode: (process.env.AGGREGATION_MODE as AggregationMode) || 'median',
+            subscribeTrades: true,  // 记录各聚合方式的价格，离线对比跟踪误差
+            minPriceChange: options.asset.minPriceChange,
+            onPriceUpdate: this.onBTCAggregatedPriceUpdate.bind(this),
+        });
+        this.recorder = new CycleRecorder(options.eventSink ?? createCycleEventSink());
+        // 设置 ORDER_BOOK_RECORD_DIR 时录制订单簿 WebSocket 原始消息，可用 replay-order-book 命令回放
+        const orderBookRecorder = process.env.ORDER_BOOK_RECORD_DIR
+            ? new WsMessageRecorder({ dir: process.env.ORDER_BOOK_RECORD_DIR, name: this.name })
+            : null;
+        this.orderBookHub = new MultiMarketOrderBookManager({ recorder: orderBookRecorder });
+        this.nextMarketPrewarmer = new NextMarketPrewarmer(this.polymarketApiService, this.polymarketTrader, this.orderBookHub, {
+            name: this.name,
+            orderBookOptions: this.getMarketOrderBookOptions(),
+        });
+        this.positionManager = new PositionManager(this, this.polymarketTrader, this.recorder);
+        this.cycleSettler = new CycleSettler(this.polymarketApiService, { name: this.name });
+        this.cycleStorage = options.cycleStorage ?? getCycleStorage();
+    }
+
+    @Cron(CronExpression.EVERY_SECOND)
+    public async onInterval() {
+        if (process.env.COMMAND !== this.options.command) {
+            return;
+        }
+
+        this.checkUSDEStopLoss();
+
+        this.resolvePriceToBeat();
+        this.cycleSettler.settlePending()
+            .catch((error) => console.error(`[${this.name}] settle pending cycles failed: ${error.message}`));
+        this.checkOrderBookConsistency();
+
+        if (!this.canInterval) {
+            return;
+        }
+
+        if (this.isExecuting) {
+            return;
+        }
+
+        if (!this.market) {
+            return;
+        }
+
+        this.prewarmNextMarket();
+
+        const currentSlug = this.getCurrentSlug();
+        const originSlug = this.market.slug;
+        const originSlugTimestamp = Number(originSlug.split('-')[3]);
+        if (currentSlug === originSlug) {
+            return;
+        }
+
+        // 重置
+        this.isExecuting = true;
+
+        try {
+            if (this.orderBookManager) {
+                this.orderBookManager.destroy();
+            }
+
+            if (this.marketLiveDataConnection) {
+                this.marketLiveDataConnection.destroy();
+            }
+
+            console.log();
+            console.log(`[${this.name}] 🔥 Result - ${originSlug}`, this.bidResults);
+            console.log(`[${this.name}] 🤔 Simulated - ${originSlug}`, this.simulatedBidResults);
+            console.log(`[${this.name}] 🎯 Price to beat - ${originSlug}`, this.priceToBeatResolver?.getResolution());
+            console.log(`[${this.name}] 🧮 Order book integrity - ${originSlug}`, this.orderBookManager?.getIntegrityStats());
+            console.log(`[${this.name}] 🔥 Reset - ${currentSlug}`);
+            // 异步写入，不阻塞定时任务；存储方式由 CYCLE_STORAGE 选择
+            const start = Date.now();
+            this.cycleStorage.saveCycle({
+                slug: originSlug,
+                priceRecords: this.historyPriceRecords,
+                btcPrices: this.historyBTCPrices,
+                btcAggregatedPrices: this.historyBTCAggregatedPricesMap[originSlugTimestamp] ?? [],
+                aggregatedModePrices: this.historyAggregatedModePricesMap[originSlugTimestamp] ?? [],
+                bidResults: this.bidResults,
+                simulatedBidResults: this.simulatedBidResults,
+                priceToBeat: this.priceToBeatResolver?.getResolution() ?? null,
+                chainlinkTracking: this.chainlinkTrackingMonitor.getStats(originSlugTimestamp * 1000),
+            })
+                .then(() => console.log(`[${this.name}] 🔥 Save cycle data (${this.cycleStorage.type}) cost: ${Date.now() - start}ms`))
+                .catch((error) => console.error(`[${this.name}] save cycle data failed: ${error.message}`));
+
+            // 市场结算后计算盈亏
+            this.cycleSettler.enqueue({
+                slug: originSlug,
+                outcomes: this.outcomes,
+                endTimestamp: originSlugTimestamp * 1000 + this.getCycleDurationMs(),
+                priceToBeat: this.priceToBeatResolver?.getResolution()?.price ?? null,
+                bidResults: this.bidResults,
+                simulatedBidResults: this.simulatedBidResults,
+            });
+
+            delete this.historyBTCAggregatedPricesMap[originSlugTimestamp];
+            delete this.historyAggregatedModePricesMap[originSlugTimestamp];
+
+            await this.execute();
+        } finally {
+            this.isExecuting = false;
+        }
+    }
+
+    public async initialize(slug: string) {
+        // 周期结束前已预热的市场直接使用，不再查询接口和等待订单簿快照
+        const prewarmed = this.nextMarketPrewarmer.take(slug);
+        const market = prewarmed?.market ?? await this.polymarketApiService.getMarketBySlug(slug);
+        if (!market) {
+            throw new Error(`Market not found: ${slug}`);
+        }
+
+        this.market = market;
+        this.tokenIds = JSON.parse(this.market.clobTokenIds);
+        this.outcomes = JSON.parse(this.market.outcomes);
+        this.recorder.setSlug(this.market.slug);
+
+        this.bidResults = [];
+        this.simulatedBidResults = [];
+        this.historyPriceRecords = [];
+        this.historyBTCPrices = [];
+        this.latestMarketPrices = {};
+        this.priceToBeatResolver = new PriceToBeatResolver(this.polymarketApiService, {
+            slug: this.market.slug,
+            asset: this.options.asset,
+            startTimestamp: Number(this.market.slug.split('-')[3]) * 1000,
+        });
+        this.positionManager.reset();
+
+        // 每个周期开始时检查配置文件变更（热加载）
+        this.strategys = createStrategys(this, this.strategyConfigLoader.reload());
+
+        // 预热过的市场 tick size 等已缓存，不会请求接口
+        await this.polymarketTrader.initialize(this.market);
+
+        // 先执行一次buildOrder，可能涉及到一些缓存
+        this.polymarketTrader.buildMarketOrder(this.tokenIds[0], 0.1, this.amountBid, Side.BUY);
+
+        this.marketLiveDataConnection = new WebSocketConnection({
+            url: POLYMARKET_LIVE_DATA_WS_URL,
+            onOpen: this.handleMarketLiveDataOpen.bind(this),
+            onMessage: this.handleMarketLiveDataMessage.bind(this),
+        });
+        this.marketLiveDataConnection.connect();
+
+        // 两个 outcome 都订阅，下单使用实际订单簿
+        this.orderBookHub.connect();
+        this.orderBookManager = prewarmed?.orderBookManager ?? this.orderBookHub.addMarket(this.market, this.getMarketOrderBookOptions());
+        this.orderBookManager.events$.subscribe(this.onOrderBookEvent.bind(this));
+        this.orderBookManager.initialize();
+
+        // 预热的订单簿在订阅前已发布快照和最优价，用当前最优价补齐
+        for (let tokenIndex = 0; tokenIndex < this.tokenIds.length; tokenIndex++) {
+            const bestPrices = this.orderBookManager.getBestPrices(this.tokenIds[tokenIndex]);
+            if (bestPrices) {
+                this.latestMarketPrices[this.outcomes[tokenIndex]] = bestPrices.bestAsk;
+            }
+        }
+
+        this.isPrewarmedCycle = !!prewarmed;
+        this.isFirstUsableBookPending = true;
+        this.checkFirstUsableBook();
+    }
+
+    public async execute(slug?: string) {
+        if (!!slug) {
+            this.canInterval = false;
+        }
+
+        slug = slug || this.getCurrentSlug();
+
+        // 启动时校验策略配置，不合法直接退出
+        if (!this.strategyConfigLoader.getConfig()) {
+            this.strategyConfigLoader.load();
+        }
+
+        this.btcAggregatedPriceService.start();
+        await this.initialize(slug);
+    }
+
+    private onOrderBookEvent(event: IOrderBookEvent) {
+        this.checkFirstUsableBook();
+
+        if (event.type !== 'best-price') {
+            return;
+        }
+
+        const tokenIndex = this.tokenIds.findIndex(id => id.toLowerCase() === event.assetId);
+        if (tokenIndex === -1) {
+            return;
+        }
+
+        // 只有一个 outcome 的最优价变化，另一个沿用最新价格
+        const prices = { ...this.latestMarketPrices, [this.outcomes[tokenIndex]]: event.bestAsk };
+        const historyPriceRecord = {
+            timestamp: event.ts,
+            ...prices,
+        };
+
+        this.historyPriceRecords.unshift(historyPriceRecord);
+        this.recorder.recordTick('order-book', historyPriceRecord.timestamp, prices);
+        this.latestMarketPrices = prices;  // 更新最新市场价格供策略使用
+
+        this.checkStrategysAndBid();
+        this.positionManager.checkExits();
+
+        const outcome0Price = prices[this.outcomes[0]];
+        const outcome1Price = prices[this.outcomes[1]];
+
+        const fixedOutcome0Price = (outcome0Price * 100).toFixed(2);
+        const fixedOutcome1Price = (outcome1Price * 100).toFixed(2);
+
+        const currentMarketSlugTimestamp = this.getCurrentMarketSlugTimestamp();
+        const btcFromPolymarketBase = this.historyBTCPrices.length > 0 ? this.historyBTCPrices[this.historyBTCPrices.length - 1].price : 0;
+        const btcFromPolymarketLatest = this.historyBTCPrices.length > 0 ? this.historyBTCPrices[0].price : 0;
+        const btcFromPolymarketOffset = btcFromPolymarketLatest - btcFromPolymarketBase;
+        const aggregatedPrices = this.historyBTCAggregatedPricesMap[currentMarketSlugTimestamp];
+        const btcFromAggregatedPriceBase = aggregatedPrices?.length > 0 ? aggregatedPrices[aggregatedPrices.length - 1].price : 0;
+        const btcFromAggregatedPriceLatest = aggregatedPrices?.length > 0 ? aggregatedPrices[0].price : 0;
+        const btcFromAggregatedPriceOffset = btcFromAggregatedPriceLatest - btcFromAggregatedPriceBase;
+        const btcDiff = btcFromPolymarketOffset - btcFromAggregatedPriceOffset;
+        const trackingStats = this.chainlinkTrackingMonitor.getLatestStats();
+        const trackingText = trackingStats ? ` | RMSE: ${trackingStats.rmse.toFixed(1)} | LEAD: ${trackingStats.leadMs}ms` : '';
+        const prediction = this.getChainlinkPrediction();
+        const predictionText = prediction ? ` | FV: ${(prediction.upProbability * 100).toFixed(2)}` : '';
+
+        process.stdout.write(
+            `\r\x1B[K${this.options.asset.symbol.toUpperCase()} Up ${fixedOutcome0Price} | Dn ${fixedOutcome1Price} | ${Date.now() - event.ts}ms | PM: ${btcFromPolymarketOffset.toFixed(1)} | AGG: ${btcFromAggregatedPriceOffset.toFixed(1)} | DIFF: ${btcDiff.toFixed(1)}${trackingText}${predictionText}`
+        );
+    }
+
+    private async simulateBid(outcomeIndex: number, strategy: BaseStrategy) {
+        const strategyType = strategy.type;
+        // 重连或重新同步期间订单簿等待快照，无法估算成交价
+        const orderBook = this.getOrderBookSnapshot(outcomeIndex, Side.BUY);
+        if (!orderBook || orderBook.length === 0) {
+            console.warn(`\n[${this.name}] 🤔 Simulate Bid skipped [${strategyType}]: ${this.outcomes[outcomeIndex]} order book not ready`);
+            return;
+        }
+
+        const price = calculateBuyMarketPrice(orderBook, strategy.stake, OrderType.FAK);
+        const shares = Math.ceil((strategy.stake / price + Number.EPSILON) * 100) / 100;
+
+        const record = {
+            outcome: this.outcomes[outcomeIndex],
+            price,
+            shares,
+            timestamp: new Date().toISOString(),
+            type: strategyType,
+        };
+        this.simulatedBidResults.push(record);
+        this.recorder.recordOrder({ strategy: strategyType, outcome: record.outcome, side: 'BUY', price: 0.99, amount: strategy.stake, simulated: true });
+        this.recorder.recordFill({ strategy: strategyType, outcome: record.outcome, side: 'BUY', price, shares, simulated: true });
+        this.positionManager.open({
+            strategy,
+            outcomeIndex,
+            tokenId: this.tokenIds[outcomeIndex],
+            shares,
+            entryPrice: price,
+            simulated: true,
+            record,
+        });
+
+        console.log(`\n[${this.name}] 🤔 Simulate Bid [${strategyType}]: ${this.outcomes[outcomeIndex]} @ ${price} | Shares: ${shares}`);
+    }
+
+    private async bid(outcomeIndex: number, strategy: BaseStrategy) {
+        const strategyType = strategy.type;
+        try {
+            // 必须成交 中心化订单簿会自动匹配最优价格
+            const price = 0.99;
+
+            this.recorder.recordOrder({ strategy: strategyType, outcome: this.outcomes[outcomeIndex], side: 'BUY', price, amount: strategy.stake, simulated: false });
+
+            let start = Date.now();
+            const order = await this.polymarketTrader.buildMarketOrder(this.tokenIds[outcomeIndex], price, strategy.stake, Side.BUY);
+            const createOrderCost = Date.now() - start;
+
+            start = Date.now();
+            const orderResult = await this.polymarketTrader.postOrder(order, OrderType.FAK);
+            if (!!orderResult.error) {
+                console.error(`[${this.name}] bid failed`, orderResult.error);
+                return;
+            }
+
+            const realPrice = strategy.stake / Number(orderResult.takingAmount);
+            const realShares = Number(orderResult.takingAmount);
+            const postOrderCost = Date.now() - start;
+
+            const record = {
+                type: strategyType,
+                outcome: this.outcomes[outcomeIndex],
+                price: realPrice,
+                shares: realShares,
+                timestamp: new Date().toISOString(),
+                createOrderCost,
+                postOrderCost,
+            };
+            this.bidResults.push(record);
+            this.recorder.recordFill({ strategy: strategyType, outcome: record.outcome, side: 'BUY', price: realPrice, shares: realShares, simulated: false });
+            this.positionManager.open({
+                strategy,
+                outcomeIndex,
+                tokenId: this.tokenIds[outcomeIndex],
+                shares: realShares,
+                entryPrice: realPrice,
+                simulated: false,
+                record,
+            });
+
+            const logString = `\n[${this.name}] ✅ Bid | Type: ${strategyType} | Outcome: ${this.outcomes[outcomeIndex]} | Price: ${realPrice} | Shares: ${realShares} | ${new Date().toISOString()} | CreateCost: ${createOrderCost}ms | PostCost: ${postOrderCost}ms`;
+            console.log(logString);
+        } catch (error) {
+            console.error(`[${this.name}] bid failed`, error);
+        }
+    }
+
+    private handleMarketLiveDataOpen() {
+        console.log('MarketLiveDataConnection opened');
+        const a = {
+            action: 'subscribe',
+            subscriptions:
+                [
+                    { topic: 'activity', type: 'orders_matched', filters: `{\"event_slug\":\"${this.market.slug}\"}` },
+                    { topic: 'crypto_prices_chainlink', type: 'update', filters: `{\"symbol\":\"${this.options.asset.chainlinkSymbol}\"}` }
+                ],
+        }
+        this.marketLiveDataConnection.sendMessage(a);
+    }
+
+    private handleMarketLiveDataMessage(message: string) {
+        const parsed = JSON.parse(message);
+        if (!parsed) {
+            return;
+        }
+
+        if (parsed.type === 'orders_matched') {
+
+        }
+
+        if (parsed.topic === 'crypto_prices_chainlink') {
+            const pricePoint = {
+                timestamp: parsed.payload.timestamp,
+                price: parsed.payload.value,
+            };
+            this.historyBTCPrices.unshift(pricePoint);
+            this.chainlinkTrackingMonitor.addChainlinkPrice(pricePoint);
+            this.chainlinkPredictor.addChainlinkPrice(pricePoint);
+            this.priceToBeatResolver?.addChainlinkPrice(pricePoint);
+            this.cycleSettler.addChainlinkPrice(pricePoint);
+            this.recorder.recordTick('chainlink', pricePoint.timestamp, { price: pricePoint.price });
+        }
+
+        return;
+    }
+
+    private getMarketOrderBookOptions(): MarketOrderBookOptions {
+        return {
+            subscribeBothOutcomes: true,
+            fetchBook: (tokenId) => this.polymarketApiService.getOrderBook(tokenId),
+            verifySnapshotHash: true,
+        };
+    }
+
+    /**
+     * 周期结束前预热下个周期的市场，切换时由 initialize 取出
+     */
+    private prewarmNextMarket() {
+        const nextStartTimestamp = this.getCurrentMarketSlugTimestamp() + this.intervalSeconds;
+        this.nextMarketPrewarmer.prewarm(`${this.slugPrefix}-${nextStartTimestamp}`, nextStartTimestamp * 1000);
+    }
+
+    /**
+     * 记录周期开始到订单簿可用（所有资产收到快照）的间隔
+     */
+    private checkFirstUsableBook() {
+        if (!this.isFirstUsableBookPending || !this.orderBookManager?.isBookReady()) {
+            return;
+        }
+        this.isFirstUsableBookPending = false;
+
+        const gapMs = Date.now() - Number(this.market.slug.split('-')[3]) * 1000;
+        console.log(`[${this.name}] ⏱️ First usable book - ${this.market.slug}: ${gapMs}ms after cycle start (${this.isPrewarmedCycle ? 'prewarmed' : 'cold'})`);
+    }
+
+    private getCurrentSlug(): string {
+        const startTimestamp = this.getCurrentMarketSlugTimestamp();
+
+        return `${this.slugPrefix}-${startTimestamp}`;
+    }
+
+    /**
+     * 每 10 秒对比 YES 反转得到的 NO 订单簿与实际 NO 订单簿，不一致时输出差异
+     */
+    private checkOrderBookConsistency() {
+        const now = Date.now();
+        if (!this.orderBookManager || now - this.lastConsistencyCheckAt < 10 * 1000) {
+            return;
+        }
+        this.lastConsistencyCheckAt = now;
+
+        const report = this.orderBookManager.checkConsistency();
+        if (report && !report.consistent) {
+            console.warn(
+                `\n[${this.name}] ⚠️ Order book diverged - synthetic ${report.syntheticBestBid}/${report.syntheticBestAsk}` +
+                ` vs actual ${report.actualBestBid}/${report.actualBestAsk} | ${report.mismatches.length} levels`,
+            );
+        }
+    }
+
+    /**
+     * 未确认前每秒尝试解析基准价格，确认后补充到 historyBTCPrices 末尾作为 Chainlink 价格的周期基准
+     */
+    private async resolvePriceToBeat() {
+        const resolver = this.priceToBeatResolver;
+        if (!resolver || resolver.isConfirmed()) {
+            return;
+        }
+
+        try {
+            const resolution = await resolver.resolve();
+            // 解析期间可能已经切换到下一个周期
+            if (!resolution?.confirmed || resolver !== this.priceToBeatResolver) {
+                return;
+            }
+
+            const startTimestamp = Number(this.market.slug.split('-')[3]) * 1000;
+            const baseline = this.historyBTCPrices[this.historyBTCPrices.length - 1];
+            if (!baseline || baseline.timestamp !== startTimestamp) {
+                this.historyBTCPrices.push({ timestamp: startTimestamp, price: resolution.price });
+            }
+        } catch (error) {
+            console.error(`[${this.name}] resolvePriceToBeat failed: ${error.message}`);
+        }
+    }
+
+    private onBTCAggregatedPriceUpdate(data: AggregatedPriceData) {
+        const startTimestamp = this.getCurrentMarketSlugTimestamp();
+        if (!this.historyBTCAggregatedPricesMap[startTimestamp]) {
+            this.historyBTCAggregatedPricesMap[startTimestamp] = [];
+        }
+
+        // 数据源明细不写入价格记录，避免记录文件膨胀
+        const { contributingSources, excludedSources, mode, modePrices, ...pricePoint } = data;
+        this.historyBTCAggregatedPricesMap[startTimestamp].unshift(pricePoint);
+        this.chainlinkTrackingMonitor.addAggregatedPrice(pricePoint);
+        this.chainlinkPredictor.addAggregatedPrice(pricePoint);
+        this.recorder.recordTick('aggregated', pricePoint.timestamp, { price: pricePoint.price, activeSources: pricePoint.activeSources });
+
+        if (!this.historyAggregatedModePricesMap[startTimestamp]) {
+            this.historyAggregatedModePricesMap[startTimestamp] = [];
+        }
+        this.historyAggregatedModePricesMap[startTimestamp].unshift({ timestamp: data.timestamp, modePrices });
+
+        this.checkStrategysAndBid();
+        this.positionManager.checkExits();
+    }
+
+    private async checkUSDEStopLoss() {
+        try {
+            if (!this.canBid) {
+                return;
+            }
+
+            const usdeBalance = await this.polymarketApiService.getUSDEBalance(this.polymarketTrader.proxyAddress);
+            if ((usdeBalance / 10 ** 6) < this.usdeStopLossLine) {
+                this.canBid = false;
+            }
+        } catch (error) {
+            console.error(`[${this.name}] checkUSDEStopLoss failed: ${error.message}`);
+        }
+    }
+
+    private getCurrentMarketSlugTimestamp(): number {
+        const currentTimestamp = Math.floor(Date.now() / 1000);
+        const nextDiff = currentTimestamp % this.intervalSeconds;
+        return currentTimestamp - nextDiff;
+    }
+
+    public getCycleStartTimestamp(): number {
+        return this.getCurrentMarketSlugTimestamp() * 1000;
+    }
+
+    public getCycleDurationMs(): number {
+        return this.intervalSeconds * 1000;
+    }
+
+    public getElapsedMs(): number {
+        return Date.now() - this.getCycleStartTimestamp();
+    }
+
+    public getChainlinkPrices(): readonly PricePoint[] {
+        return this.historyBTCPrices;
+    }
+
+    /**
+     * 获取当前周期的聚合BTC价格数组
+     */
+    public getAggregatedPrices(): readonly PricePoint[] | null {
+        const startTimestamp = this.getCurrentMarketSlugTimestamp();
+        return this.historyBTCAggregatedPricesMap[startTimestamp] || null;
+    }
+
+    public getChainlinkTrackingStats(): ChainlinkTrackingStats | null {
+        return this.chainlinkTrackingMonitor.getLatestStats();
+    }
+
+    public isBaselineConfirmed(): boolean {
+        return !!this.priceToBeatResolver?.isConfirmed();
+    }
+
+    /**
+     * 基准价格优先使用 PriceToBeatResolver 的结果，尚未解析时取当前周期最早的 Chainlink 价格
+     */
+    public getChainlinkPrediction(): ChainlinkPrediction | null {
+        const resolution = this.priceToBeatResolver?.getResolution();
+        if (!resolution && this.historyBTCPrices.length === 0) {
+            return null;
+        }
+
+        const priceToBeat = resolution?.price ?? this.historyBTCPrices[this.historyBTCPrices.length - 1].price;
+        const settlementTimestamp = this.getCycleStartTimestamp() + this.getCycleDurationMs();
+        return this.chainlinkPredictor.predict(Date.now(), priceToBeat, settlementTimestamp, this.chainlinkTrackingMonitor.getLatestStats());
+    }
+
+    public getOutcomePrices(): Readonly<Record<string, number>> {
+        return this.latestMarketPrices;
+    }
+
+    public getOrderBookSnapshot(outcomeIndex: number, side: Side): OrderSummary[] | null {
+        if (!this.orderBookManager || !this.tokenIds[outcomeIndex]) {
+            return null;
+        }
+
+        try {
+            return this.orderBookManager.getOrderBookSnapshotByTokenId(this.tokenIds[outcomeIndex], side);
+        } catch (error) {
+            return null;
+        }
+    }
+
+    private checkStrategysAndBid() {
+        for (const strategy of this.strategys) {
+            if (strategy.requireConfirmedBaseline && !this.isBaselineConfirmed()) {
+                continue;
+            }
+
+            const [isTrigger, outcomeIndex] = strategy.checkSignal();
+            if (isTrigger) {
+                this.recorder.recordSignal(strategy.type, this.outcomes[outcomeIndex]);
+                this.simulateBid(outcomeIndex, strategy);
+
+                if (strategy.canBid && this.canBid && Date.now() > this.canBidStartDate.getTime()) {
+                    this.bid(outcomeIndex, strategy);
+                }
+            }
+        }
+    }
+}
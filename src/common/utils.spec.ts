@@ -1,4 +1,4 @@
-import { canRunCron, toBeHexTrimZero, getCurrentYearMonth } from './utils';
+import { canRunCron, toBeHexTrimZero, getCurrentYearMonth, median, normalCdf } from './utils';
 
 describe('utils', () => {
     describe('canRunCron', () => {
@@ -49,4 +49,30 @@ describe('utils', () => {
             expect(result).toMatch(/^\d{6}$/);
         });
     });
+
+    describe('median', () => {
+        it('奇数个取中间值', () => {
+            expect(median([3, 1, 2])).toBe(2);
+        });
+
+        it('偶数个取中间两个的平均值', () => {
+            expect(median([4, 1, 3, 2])).toBe(2.5);
+        });
+
+        it('空数组返回 NaN', () => {
+            expect(median([])).toBeNaN();
+        });
+    });
+
+    describe('normalCdf', () => {
+        it('Φ(0) = 0.5', () => {
+            expect(normalCdf(0)).toBeCloseTo(0.5, 7);
+        });
+
+        it('与标准正态分布表一致且对称', () => {
+            expect(normalCdf(1.96)).toBeCloseTo(0.975, 4);
+            expect(normalCdf(-1)).toBeCloseTo(0.158655, 5);
+            expect(normalCdf(-1) + normalCdf(1)).toBeCloseTo(1, 7);
+        });
+    });
 });
@@ -33,4 +33,29 @@ export function getCurrentYearMonth(date?: Date) {
 
 export function hash64(s: string) {
     return fnv.hash(s.toLowerCase(), 64).dec();
-}
\ No newline at end of file
+}
+
+/**
+ * 中位数，空数组返回 NaN
+ */
+export function median(values: number[]) {
+    if (values.length === 0) {
+        return NaN;
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const midIdx = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[midIdx - 1] + sorted[midIdx]) / 2 : sorted[midIdx];
+}
+
+/**
+ * 标准正态分布累积分布函数 Φ(x)
+ * erf 使用 Abramowitz-Stegun 7.1.26 近似，误差 < 1.5e-7
+ */
+export function normalCdf(x: number) {
+    const z = Math.abs(x) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * z);
+    const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    const erf = 1 - poly * Math.exp(-z * z);
+    return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
@@ -5,6 +5,10 @@ import { BTC15MExecutor } from './bots/btc-15m-executor';
 import { PolymarketTrader } from './bots/polymarket-trader';
 import { Side } from '@polymarket/clob-client';
 import { BTC5MExecutor } from './bots/btc-5m-executor';
+import { UpDownExecutorManager } from './bots/up-down-executor-manager';
+import { BID_RESULTS_DIR, buildLeaderboard, loadSettlementRecords } from './bots/cycle-settlement';
+import { OrderBookManager } from './libs/polymarket-order-book/order-book-manager';
+import { loadWsRecording, WsMessageReplayer } from './libs/polymarket-order-book/ws-message-replayer';
 
 process.env.EXECUTE_MODE = 'console';
 
@@ -41,8 +45,51 @@ async function bootstrap() {
         const btc15mExecutor = app.get(BTC15MExecutor);
         await btc15mExecutor.execute(slug);
     } else if (command === 'btc-5m-executor') {
+        const slug = process.argv[3];
+
         const btc5mExecutor = app.get(BTC5MExecutor);
-        await btc5mExecutor.start();
+        await btc5mExecutor.execute(slug);
+    } else if (command === 'up-down-executor') {
+        // up-down-executor eth,sol,xrp 15m
+        const assets = process.argv[3].split(',');
+        const interval = process.argv[4] || '15m';
+
+        const upDownExecutorManager = app.get(UpDownExecutorManager);
+        await upDownExecutorManager.execute(assets, interval);
+    } else if (command === 'strategy-leaderboard') {
+        // strategy-leaderboard [最近周期数，默认96（15m 一天）]
+        const limit = Number(process.argv[3] || 96);
+
+        const records = loadSettlementRecords(BID_RESULTS_DIR, limit);
+        console.log(`[StrategyLeaderboard] 最近 ${records.length} 个已结算周期`);
+        console.table(buildLeaderboard(records).map((item) => ({
+            type: item.type,
+            livePnl: Number(item.live.pnl.toFixed(4)),
+            liveBids: item.live.bids,
+            liveWinRate: item.live.bids > 0 ? `${(item.live.wins / item.live.bids * 100).toFixed(2)}%` : '-',
+            simulatedPnl: Number(item.simulated.pnl.toFixed(4)),
+            simulatedBids: item.simulated.bids,
+            simulatedWinRate: item.simulated.bids > 0 ? `${(item.simulated.wins / item.simulated.bids * 100).toFixed(2)}%` : '-',
+        })));
+    } else if (command === 'replay-order-book') {
+        // replay-order-book <slug> <录制文件或目录> [倍速，默认 0 尽快回放]
+        const slug = process.argv[3];
+        const recordingPath = process.argv[4];
+        const speed = Number(process.argv[5] || 0);
+
+        const market = await app.get(PolymarketApiService).getMarketBySlug(slug.trim());
+        const replayer = new WsMessageReplayer(loadWsRecording(recordingPath), { speed });
+        const orderBookManager = new OrderBookManager(market);
+
+        const eventCounts: Record<string, number> = {};
+        orderBookManager.events$.subscribe((event) => {
+            eventCounts[event.type] = (eventCounts[event.type] ?? 0) + 1;
+        });
+        const replayed = await orderBookManager.replay(replayer);
+        orderBookManager.destroy();
+
+        console.log(`[ReplayOrderBook] 回放 ${replayed}/${replayer.getMessageCount()} 条消息`, eventCounts);
+        console.log('[ReplayOrderBook] 最终订单簿: ', JSON.stringify(orderBookManager.getCompleteOrderBookSnapshot()));
     } else if (command === 'polymarket-trader') {
         const slug = process.argv[3];
         const choice = process.argv[4];
@@ -0,0 +1,412 @@
+import { median } from '../../common/utils';
+import { WebSocketConnection, WebSocketTransport } from '../websocket-connection';
+import { DEFAULT_EXCHANGE_ADAPTERS, getExchangeSymbols } from './exchange-adapters';
+import { AggregatedPriceData, AggregationMode, ExchangeAdapter, ExchangeSymbols, ExchangeTrade, SourceExclusionReason } from './interfaces';
+
+export interface AggregatedPriceServiceOptions {
+    symbol: string;             // 币种，如 btc / eth / sol
+    symbols?: ExchangeSymbols;  // 自定义交易对，默认按 symbol 查 EXCHANGE_SYMBOLS
+    adapters?: ExchangeAdapter[];   // 数据源，默认 DEFAULT_EXCHANGE_ADAPTERS
+    onPriceUpdate?: (data: AggregatedPriceData) => void;
+    silent?: boolean;           // 静默模式，不输出连接日志
+    minPriceChange?: number;    // 价格变化超过该值才触发更新，默认 0.01
+    staleMs?: number;           // 数据源超过该时长未更新视为失效，默认 30s
+    usdtRateStaleMs?: number;   // USDT/USD 汇率超过该时长未更新视为失效，默认 10 分钟（汇率变化慢，行情可能长时间无推送）
+    outlierMadThreshold?: number;   // 偏离中位数超过 N 倍 MAD 视为异常值，默认 5
+    outlierMinDeviation?: number;   // 异常值判断的最小偏离比例，避免 MAD 接近 0 时误杀，默认 0.0005 (5bps)
+    mode?: AggregationMode;     // 发布价格使用的聚合方式，默认 median
+    subscribeTrades?: boolean;  // 是否订阅成交，默认 mode 不是 median 时订阅
+    tradeWindowMs?: number;     // VWAP 成交窗口，默认 10s
+    transport?: WebSocketTransport; // 默认使用全局 transport
+}
+
+interface TimedTrade extends ExchangeTrade {
+    timestamp: number;  // 接收时间 (ms)
+}
+
+interface SourceEvaluation {
+    prices: Record<string, number>; // 参与聚合的数据源 USD 价格
+    excluded: Record<string, SourceExclusionReason>;
+}
+
+export const AGGREGATION_MODES: AggregationMode[] = ['median', 'vwap', 'hybrid'];
+
+// MAD -> 标准差的换算系数（正态分布）
+const MAD_SCALE = 1.4826;
+
+/**
+ * 综合价格服务
+ * 从多个交易所获取指定币种价格，使用中位数算法聚合，模拟 Chainlink 的抗操纵逻辑
+ * 每个交易所的订阅和解析由 ExchangeAdapter 负责
+ */
+export class AggregatedPriceService {
+    private connections: Map<string, WebSocketConnection> = new Map();
+    private sourcePrices: Map<string, number> = new Map();  // 存储原始价格（USDT源存USDT价格，USD源存USD价格）
+    private sourceTypes: Map<string, 'USDT' | 'USD'> = new Map();  // 记录每个源的计价类型
+    private sourceUpdatedAt: Map<string, number> = new Map();  // 每个源最后一次推送价格的时间 (ms)
+    private usdtRate: number = 0;  // USDT/USD 汇率，0 表示尚未获取
+    private usdtRateUpdatedAt: number = 0;
+    private hasValidUsdtRate: boolean = false;  // 是否已获取有效汇率
+    
+    private currentPrice: number = 0;
+    private lastUpdateTimestamp: number = 0;
+    private lastEvaluation: SourceEvaluation = { prices: {}, excluded: {} };  // 最近一次聚合时的数据源情况
+    private lastModePrices: Record<AggregationMode, number | null> = { median: null, vwap: null, hybrid: null };
+    private sourceTrades: Map<string, TimedTrade[]> = new Map();  // 每个源窗口内的成交
+    
+    private onPriceUpdate?: (data: AggregatedPriceData) => void;
+    private isStarted: boolean = false;
+
+    private silent: boolean = false;
+    private symbols: ExchangeSymbols;
+    private adapters: ExchangeAdapter[];
+    private minPriceChange: number;
+    private staleMs: number;
+    private usdtRateStaleMs: number;
+    private outlierMadThreshold: number;
+    private outlierMinDeviation: number;
+    private mode: AggregationMode;
+    private subscribeTrades: boolean;
+    private tradeWindowMs: number;
+    private tag: string;
+    private transport?: WebSocketTransport;
+
+    constructor(options: AggregatedPriceServiceOptions) {
+        this.onPriceUpdate = options.onPriceUpdate;
+        this.silent = options.silent ?? false;
+        this.symbols = options.symbols ?? getExchangeSymbols(options.symbol);
+        this.adapters = options.adapters ?? DEFAULT_EXCHANGE_ADAPTERS;
+        this.minPriceChange = options.minPriceChange ?? 0.01;
+        this.staleMs = options.staleMs ?? 30 * 1000;
+        this.usdtRateStaleMs = options.usdtRateStaleMs ?? 10 * 60 * 1000;
+        this.outlierMadThreshold = options.outlierMadThreshold ?? 5;
+        this.outlierMinDeviation = options.outlierMinDeviation ?? 0.0005;
+        this.mode = options.mode ?? 'median';
+        if (!AGGREGATION_MODES.includes(this.mode)) {
+            throw new Error(`Invalid aggregation mode: ${this.mode}, expected one of ${AGGREGATION_MODES.join(', ')}`);
+        }
+        this.subscribeTrades = options.subscribeTrades ?? this.mode !== 'median';
+        this.tradeWindowMs = options.tradeWindowMs ?? 10 * 1000;
+        this.tag = `AggregatedPrice:${options.symbol.toUpperCase()}`;
+        this.transport = options.transport;
+    }
+
+    /**
+     * 启动服务，连接所有交易所
+     */
+    public start(): void {
+        if (this.isStarted) {
+            console.warn(`[${this.tag}] Already started`);
+            return;
+        }
+
+        if (!this.silent) console.log(`[${this.tag}] Starting, connecting to exchanges...`);
+        this.isStarted = true;
+
+        for (const adapter of this.adapters) {
+            this.createConnection(adapter);
+        }
+    }
+
+    /**
+     * 停止服务，断开所有连接
+     */
+    public stop(): void {
+        if (!this.isStarted) {
+            return;
+        }
+
+        if (!this.silent) console.log(`[${this.tag}] Stopping...`);
+        this.isStarted = false;
+
+        for (const connection of this.connections.values()) {
+            connection.destroy();
+        }
+        this.connections.clear();
+        this.sourcePrices.clear();
+        this.sourceUpdatedAt.clear();
+        this.sourceTrades.clear();
+    }
+
+    /**
+     * 获取当前综合价格数据
+     */
+    public getPriceData(): AggregatedPriceData {
+        return this.buildPriceData(this.lastEvaluation);
+    }
+
+    /**
+     * 获取当前综合价格
+     */
+    public getPrice(): number {
+        return this.currentPrice;
+    }
+
+    /**
+     * 获取最后更新时间戳
+     */
+    public getTimestamp(): number {
+        return this.lastUpdateTimestamp;
+    }
+
+    /**
+     * 获取各数据源价格 (USD)
+     * USDT 源会转换为 USD，如果没有有效汇率则返回 0
+     */
+    public getSourcePrices(): Record<string, number> {
+        const result: Record<string, number> = {};
+        for (const [id, price] of this.sourcePrices.entries()) {
+            result[id] = this.toUsdPrice(id, price) ?? 0;  // 没有有效汇率，无法转换
+        }
+        return result;
+    }
+
+    private createConnection(adapter: ExchangeAdapter): void {
+        const id = adapter.id;
+        const connection = new WebSocketConnection({
+            url: adapter.url,
+            transport: this.transport,
+            maxReconnectAttempts: 0, // 无限重连
+            reconnectBaseDelayMs: 3000,
+            reconnectMaxDelayMs: 30000,
+            pingIntervalMs: 10000, // 10秒 ping 一次，防止代理超时断开
+
+            onOpen: () => {
+                if (!this.silent) console.log(`[${this.tag}] ${id} connected`);
+                connection.sendMessage(adapter.buildSubscribeMessage(this.symbols));
+                if (this.subscribeTrades && adapter.buildTradeSubscribeMessage) {
+                    connection.sendMessage(adapter.buildTradeSubscribeMessage(this.symbols));
+                }
+            },
+
+            onMessage: (message: string) => {
+                this.handleMessage(adapter, message);
+            },
+
+            onClose: () => {
+                if (!this.silent) console.warn(`[${this.tag}] ${id} disconnected`);
+            },
+
+            onReconnect: (attempt: number) => {
+                if (!this.silent) console.log(`[${this.tag}] ${id} reconnecting (attempt ${attempt})`);
+            }
+        });
+
+        this.connections.set(id, connection);
+        connection.connect();
+    }
+
+    private handleMessage(adapter: ExchangeAdapter, rawData: string): void {
+        try {
+            const data = JSON.parse(rawData);
+            const trades = adapter.parseTrades?.(data) ?? [];
+            if (trades.length > 0) {
+                this.addTrades(adapter, trades);
+            }
+
+            const mid = adapter.parseMessage(data);
+            if (!(mid > 0)) {
+                if (trades.length > 0) {
+                    this.runAggregation();
+                }
+                return;
+            }
+
+            if (adapter.type === 'FX') {
+                this.usdtRate = mid;
+                this.usdtRateUpdatedAt = Date.now();
+                this.hasValidUsdtRate = true;
+                // 汇率更新后重新聚合
+                this.runAggregation();
+                return;
+            }
+
+            // 存储原始价格和计价类型
+            this.sourcePrices.set(adapter.id, mid);
+            this.sourceTypes.set(adapter.id, adapter.type);
+            this.sourceUpdatedAt.set(adapter.id, Date.now());
+            this.runAggregation();
+        } catch (e) {
+            // 忽略解析错误
+        }
+    }
+
+    private addTrades(adapter: ExchangeAdapter, trades: ExchangeTrade[]): void {
+        const now = Date.now();
+        const windowTrades = (this.sourceTrades.get(adapter.id) ?? []).filter((trade) => now - trade.timestamp <= this.tradeWindowMs);
+        for (const trade of trades) {
+            if (trade.price > 0 && trade.size > 0) {
+                windowTrades.push({ ...trade, timestamp: now });
+            }
+        }
+        this.sourceTrades.set(adapter.id, windowTrades);
+        this.sourceTypes.set(adapter.id, adapter.type as 'USDT' | 'USD');
+    }
+
+    /**
+     * 单个源窗口内成交的 VWAP (USD)，没有成交时返回 null
+     */
+    private getSourceVwap(id: string, now: number): { notional: number; volume: number } | null {
+        let notional = 0;
+        let volume = 0;
+        for (const trade of this.sourceTrades.get(id) ?? []) {
+            if (now - trade.timestamp > this.tradeWindowMs) continue;
+
+            const usdPrice = this.toUsdPrice(id, trade.price);
+            if (usdPrice === null) continue;
+
+            notional += usdPrice * trade.size;
+            volume += trade.size;
+        }
+
+        return volume > 0 ? { notional, volume } : null;
+    }
+
+    /**
+     * 按三种聚合方式分别计算价格，只使用通过筛选的数据源
+     */
+    private computeModePrices(evaluation: SourceEvaluation, now: number): Record<AggregationMode, number | null> {
+        const ids = Object.keys(evaluation.prices);
+
+        let notional = 0;
+        let volume = 0;
+        const hybridPrices: number[] = [];
+        for (const id of ids) {
+            const vwap = this.getSourceVwap(id, now);
+            if (vwap) {
+                notional += vwap.notional;
+                volume += vwap.volume;
+            }
+            hybridPrices.push(vwap ? vwap.notional / vwap.volume : evaluation.prices[id]);
+        }
+
+        // 至少需要 3 个源激活以计算中位数
+        return {
+            median: ids.length >= 3 ? median(Object.values(evaluation.prices)) : null,
+            vwap: ids.length >= 3 && volume > 0 ? notional / volume : null,
+            hybrid: hybridPrices.length >= 3 ? median(hybridPrices) : null,
+        };
+    }
+
+    private toUsdPrice(id: string, price: number): number | null {
+        const sourceType = this.sourceTypes.get(id);
+        if (sourceType === 'USD') {
+            return price;
+        }
+        if (sourceType === 'USDT' && this.hasValidUsdtRate) {
+            return price * this.usdtRate;
+        }
+        return null;
+    }
+
+    /**
+     * 筛选参与聚合的数据源
+     * 1. 超过 staleMs 未更新的源剔除
+     * 2. USDT 源必须有未过期（usdtRateStaleMs 内）的汇率才能转换为 USD
+     * 3. 剩余源按 MAD 剔除异常值（至少 3 个源时才判断）
+     */
+    private evaluateSources(now: number = Date.now()): SourceEvaluation {
+        const prices: Record<string, number> = {};
+        const excluded: Record<string, SourceExclusionReason> = {};
+        const isUsdtRateStale = now - this.usdtRateUpdatedAt > this.usdtRateStaleMs;
+
+        for (const [id, price] of this.sourcePrices.entries()) {
+            if (price <= 0) continue;
+
+            if (now - (this.sourceUpdatedAt.get(id) ?? 0) > this.staleMs) {
+                excluded[id] = 'STALE';
+                continue;
+            }
+
+            const usdPrice = this.toUsdPrice(id, price);
+            if (usdPrice === null || (this.sourceTypes.get(id) === 'USDT' && isUsdtRateStale)) {
+                excluded[id] = 'NO_USDT_RATE';
+                continue;
+            }
+
+            prices[id] = usdPrice;
+        }
+
+        const values = Object.values(prices);
+        if (values.length >= 3) {
+            const center = median(values);
+            const mad = median(values.map((value) => Math.abs(value - center)));
+            const maxDeviation = Math.max(this.outlierMadThreshold * MAD_SCALE * mad, center * this.outlierMinDeviation);
+            for (const [id, price] of Object.entries(prices)) {
+                if (Math.abs(price - center) > maxDeviation) {
+                    excluded[id] = 'OUTLIER';
+                    delete prices[id];
+                }
+            }
+        }
+
+        return { prices, excluded };
+    }
+
+    private buildPriceData(evaluation: SourceEvaluation): AggregatedPriceData {
+        const contributingSources = Object.keys(evaluation.prices);
+        return {
+            price: this.currentPrice,
+            timestamp: this.lastUpdateTimestamp,
+            activeSources: contributingSources.length,
+            usdtRate: this.usdtRate,
+            contributingSources,
+            excludedSources: evaluation.excluded,
+            mode: this.mode,
+            modePrices: { ...this.lastModePrices },
+        };
+    }
+
+    private runAggregation(): void {
+        const now = Date.now();
+        const evaluation = this.evaluateSources(now);
+
+        // 核心算法默认为中位数 (Median) - 模拟 Chainlink 的抗操纵逻辑
+        const modePrices = this.computeModePrices(evaluation, now);
+        const price = modePrices[this.mode];
+        this.lastEvaluation = evaluation;
+        this.lastModePrices = modePrices;
+
+        // 可用源不足，价格置 0 标记为不可用（与 hasValidPrice 一致），源恢复后重新发布
+        if (price === null) {
+            this.currentPrice = 0;
+            return;
+        }
+
+        // 只有价格变化时才更新时间戳
+        if (Math.abs(price - this.currentPrice) > this.minPriceChange) {
+            this.currentPrice = price;
+            this.lastUpdateTimestamp = now;
+
+            // 触发回调
+            if (this.onPriceUpdate) {
+                this.onPriceUpdate(this.buildPriceData(evaluation));
+            }
+        }
+    }
+
+    /**
+     * 获取连接状态摘要
+     */
+    public getConnectionStatus(): Record<string, string> {
+        const status: Record<string, string> = {};
+        for (const [id, connection] of this.connections.entries()) {
+            status[id] = connection.getState();
+        }
+        return status;
+    }
+
+    /**
+     * 是否有有效的 USDT/USD 汇率
+     */
+    public hasUsdtRate(): boolean {
+        return this.hasValidUsdtRate;
+    }
+
+    /**
+     * 是否有有效的综合价格（至少 3 个未过期、非异常的源且价格 > 0）
+     */
+    public hasValidPrice(): boolean {
+        return this.currentPrice > 0 && Object.keys(this.evaluateSources().prices).length >= 3;
+    }
+}
@@ -0,0 +1,105 @@
+import { ExchangeAdapter, ExchangeSymbols, ExchangeTrade } from './interfaces';
+
+const midPrice = (bid: string, ask: string) => (parseFloat(bid) + parseFloat(ask)) / 2;
+
+const parseKrakenTicker = (data: any) => {
+    if (Array.isArray(data) && data[1]?.b && data[1]?.a) {
+        return midPrice(data[1].b[0], data[1].a[0]);
+    }
+    return 0;
+};
+
+const trade = (price: string | number, size: string | number): ExchangeTrade => ({ price: Number(price), size: Number(size) });
+
+// USDT 计价源 (通过汇率修正)
+export const BINANCE_ADAPTER: ExchangeAdapter = {
+    id: 'BINANCE',
+    url: 'wss://stream.binance.com:9443/ws',
+    type: 'USDT',
+    buildSubscribeMessage: (symbols) => ({ method: "SUBSCRIBE", params: [`${symbols.binance}@bookTicker`], id: 1 }),
+    parseMessage: (data) => (data.b && data.a ? midPrice(data.b, data.a) : 0),
+    buildTradeSubscribeMessage: (symbols) => ({ method: "SUBSCRIBE", params: [`${symbols.binance}@aggTrade`], id: 2 }),
+    parseTrades: (data) => (data.e === 'aggTrade' ? [trade(data.p, data.q)] : []),
+};
+
+export const OKX_ADAPTER: ExchangeAdapter = {
+    id: 'OKX',
+    url: 'wss://ws.okx.com:8443/ws/v5/public',
+    type: 'USDT',
+    buildSubscribeMessage: (symbols) => ({ op: "subscribe", args: [{ channel: "tickers", instId: symbols.okx }] }),
+    parseMessage: (data) => (data.arg?.channel === 'tickers' && data.data?.[0] ? midPrice(data.data[0].bidPx, data.data[0].askPx) : 0),
+    buildTradeSubscribeMessage: (symbols) => ({ op: "subscribe", args: [{ channel: "trades", instId: symbols.okx }] }),
+    parseTrades: (data) => (data.arg?.channel === 'trades' && Array.isArray(data.data) ? data.data.map((t: any) => trade(t.px, t.sz)) : []),
+};
+
+// USD 直接计价源
+export const COINBASE_ADAPTER: ExchangeAdapter = {
+    id: 'COINBASE',
+    url: 'wss://ws-feed.exchange.coinbase.com',
+    type: 'USD',
+    buildSubscribeMessage: (symbols) => ({ type: "subscribe", product_ids: [symbols.coinbase], channels: ["ticker"] }),
+    parseMessage: (data) => (data.best_bid && data.best_ask ? midPrice(data.best_bid, data.best_ask) : 0),
+    buildTradeSubscribeMessage: (symbols) => ({ type: "subscribe", product_ids: [symbols.coinbase], channels: ["matches"] }),
+    parseTrades: (data) => (data.type === 'match' ? [trade(data.price, data.size)] : []),
+};
+
+export const KRAKEN_ADAPTER: ExchangeAdapter = {
+    id: 'KRAKEN',
+    url: 'wss://ws.kraken.com',
+    type: 'USD',
+    buildSubscribeMessage: (symbols) => ({ event: "subscribe", pair: [symbols.kraken], subscription: { name: "ticker" } }),
+    parseMessage: parseKrakenTicker,
+    buildTradeSubscribeMessage: (symbols) => ({ event: "subscribe", pair: [symbols.kraken], subscription: { name: "trade" } }),
+    // [channelID, [[price, volume, time, side, orderType, misc], ...], "trade", pair]
+    parseTrades: (data) => (Array.isArray(data) && data[2] === 'trade' && Array.isArray(data[1]) ? data[1].map((t: any[]) => trade(t[0], t[1])) : []),
+};
+
+export const BITSTAMP_ADAPTER: ExchangeAdapter = {
+    id: 'BITSTAMP',
+    url: 'wss://ws.bitstamp.net',
+    type: 'USD',
+    buildSubscribeMessage: (symbols) => ({ event: "bts:subscribe", data: { channel: `live_trades_${symbols.bitstamp}` } }),
+    parseMessage: (data) => (data.event === 'trade' && data.data?.price ? parseFloat(data.data.price) : 0),
+    // live_trades 本身就是成交推送，无需额外订阅
+    parseTrades: (data) => (data.event === 'trade' && data.data?.price ? [trade(data.data.price, data.data.amount)] : []),
+};
+
+// 关键汇率修正源，与标的无关
+export const FX_KRAKEN_ADAPTER: ExchangeAdapter = {
+    id: 'FX_KRAKEN',
+    url: 'wss://ws.kraken.com',
+    type: 'FX',
+    buildSubscribeMessage: () => ({ event: "subscribe", pair: ["USDT/USD"], subscription: { name: "ticker" } }),
+    parseMessage: parseKrakenTicker,
+};
+
+/**
+ * 默认数据源：涵盖 Chainlink 最核心的 5 个数据源 + USDT/USD 汇率
+ */
+export const DEFAULT_EXCHANGE_ADAPTERS: ExchangeAdapter[] = [
+    BINANCE_ADAPTER,
+    OKX_ADAPTER,
+    COINBASE_ADAPTER,
+    KRAKEN_ADAPTER,
+    BITSTAMP_ADAPTER,
+    FX_KRAKEN_ADAPTER,
+];
+
+/**
+ * 各币种在交易所的交易对
+ */
+export const EXCHANGE_SYMBOLS: Record<string, ExchangeSymbols> = {
+    btc: { binance: 'btcusdt', okx: 'BTC-USDT', coinbase: 'BTC-USD', kraken: 'BTC/USD', bitstamp: 'btcusd' },
+    eth: { binance: 'ethusdt', okx: 'ETH-USDT', coinbase: 'ETH-USD', kraken: 'ETH/USD', bitstamp: 'ethusd' },
+    sol: { binance: 'solusdt', okx: 'SOL-USDT', coinbase: 'SOL-USD', kraken: 'SOL/USD', bitstamp: 'solusd' },
+    xrp: { binance: 'xrpusdt', okx: 'XRP-USDT', coinbase: 'XRP-USD', kraken: 'XRP/USD', bitstamp: 'xrpusd' },
+};
+
+export function getExchangeSymbols(symbol: string): ExchangeSymbols {
+    const symbols = EXCHANGE_SYMBOLS[symbol.toLowerCase()];
+    if (!symbols) {
+        throw new Error(`Exchange symbols not found: ${symbol}`);
+    }
+
+    return symbols;
+}
@@ -0,0 +1,79 @@
+/**
+ * 数据源未参与聚合的原因
+ * - STALE: 超过 staleMs 没有更新
+ * - NO_USDT_RATE: USDT 源没有有效（或已过期）的 USDT/USD 汇率
+ * - OUTLIER: 偏离中位数超过 MAD 阈值
+ */
+export type SourceExclusionReason = 'STALE' | 'NO_USDT_RATE' | 'OUTLIER';
+
+/**
+ * 综合价格数据
+ */
+export interface AggregatedPriceData {
+    price: number;           // 综合价格 (USD)
+    timestamp: number;       // 价格更新时间戳 (ms)
+    activeSources: number;   // 活跃数据源数量
+    usdtRate: number;        // USDT/USD 汇率
+    contributingSources: string[];  // 参与本次中位数计算的数据源
+    excludedSources: Record<string, SourceExclusionReason>; // 被排除的数据源及原因
+    mode: AggregationMode;  // price 使用的聚合方式
+    modePrices: Record<AggregationMode, number | null>; // 各聚合方式的价格，用于对比跟踪误差
+}
+
+/**
+ * 各交易所的交易对符号
+ */
+export interface ExchangeSymbols {
+    binance: string;    // btcusdt
+    okx: string;        // BTC-USDT
+    coinbase: string;   // BTC-USD
+    kraken: string;     // BTC/USD
+    bitstamp: string;   // btcusd
+}
+
+/**
+ * 计价类型：USDT 源需要通过 FX 源的 USDT/USD 汇率换算
+ */
+export type ExchangeQuoteType = 'USDT' | 'USD' | 'FX';
+
+/**
+ * 聚合方式
+ * - median: 各源盘口中间价的中位数
+ * - vwap: 窗口内各源成交的成交量加权均价
+ * - hybrid: 各源优先取窗口内成交 VWAP，没有成交时用中间价，再取中位数
+ */
+export type AggregationMode = 'median' | 'vwap' | 'hybrid';
+
+/**
+ * 一笔成交（计价币种与数据源一致，USDT 源为 USDT 价格）
+ */
+export interface ExchangeTrade {
+    price: number;
+    size: number;       // 成交数量（币）
+}
+
+/**
+ * 交易所适配器：负责生成订阅消息和解析推送
+ */
+export interface ExchangeAdapter {
+    id: string;
+    url: string;
+    type: ExchangeQuoteType;
+
+    buildSubscribeMessage(symbols: ExchangeSymbols): object;
+
+    /**
+     * 解析一条推送，返回中间价（FX 源返回汇率），不是价格消息时返回 0
+     */
+    parseMessage(data: any): number;
+
+    /**
+     * 成交订阅消息，与盘口订阅走同一个连接；不需要额外订阅的源（如 Bitstamp live_trades）不实现
+     */
+    buildTradeSubscribeMessage?(symbols: ExchangeSymbols): object;
+
+    /**
+     * 解析成交推送，不是成交消息时返回空数组
+     */
+    parseTrades?(data: any): ExchangeTrade[];
+}
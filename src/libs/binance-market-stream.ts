@@ -1,4 +1,4 @@
-import { WebSocketConnection } from './websocket-connection';
+import { WebSocketConnection, WebSocketTransport } from './websocket-connection';
 import { AggTradePayload, BinanceStreamMessage, DepthUpdatePayload } from '../common/interfaces';
 import { OrderBook } from './order-book';
 
@@ -21,12 +21,15 @@ export class BinanceMarketStream {
     private connection: WebSocketConnection | null = null;
     private isStarted: boolean = false;
     private silent: boolean = false;
+    private transport?: WebSocketTransport;
     public readonly orderBook: OrderBook = new OrderBook();
 
     constructor(options?: {
         silent?: boolean;  // 静默模式，不输出连接日志
+        transport?: WebSocketTransport;  // 默认使用全局 transport
     }) {
         this.silent = options?.silent ?? false;
+        this.transport = options?.transport;
     }
 
     /**
@@ -62,6 +65,7 @@ export class BinanceMarketStream {
     private createConnection(): void {
         this.connection = new WebSocketConnection({
             url: BINANCE_MARKET_STREAM_URL,
+            transport: this.transport,
             maxReconnectAttempts: 0, // 无限重连
             reconnectBaseDelayMs: 3000,
             reconnectMaxDelayMs: 30000,
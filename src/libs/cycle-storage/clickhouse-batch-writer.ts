@@ -0,0 +1,93 @@
+import { ClickHouseClient, createClient } from '@clickhouse/client';
+
+export interface ClickHouseBatchWriterOptions {
+    url?: string;
+    username?: string;
+    password?: string;
+    database?: string;
+    client?: ClickHouseClient;      // 测试时注入
+    flushIntervalMs?: number;       // 批量写入间隔，默认 5 秒
+    maxBatchRows?: number;          // 单表缓冲行数达到后立即写入，默认 5000
+    maxBufferedRows?: number;       // 写入失败时最多保留的行数，超出丢弃最旧的，默认 500000
+}
+
+/**
+ * ClickHouse 批量写入
+ *
+ * append 只把行追加到各表的缓冲区，由定时器按批 insert（JSONEachRow），
+ * 写入失败的行保留到下一次重试
+ */
+export class ClickHouseBatchWriter {
+    private readonly client: ClickHouseClient;
+    private readonly maxBatchRows: number;
+    private readonly maxBufferedRows: number;
+    private buffers = new Map<string, object[]>();
+    private flushTimer: NodeJS.Timeout = null;
+    private flushing: Promise<void> = null;
+
+    public constructor(options: ClickHouseBatchWriterOptions = {}) {
+        this.client = options.client ?? createClient({
+            url: options.url,
+            username: options.username,
+            password: options.password,
+            database: options.database,
+        });
+        this.maxBatchRows = options.maxBatchRows ?? 5000;
+        this.maxBufferedRows = options.maxBufferedRows ?? 500000;
+
+        this.flushTimer = setInterval(() => this.flush(), options.flushIntervalMs ?? 5000);
+        this.flushTimer.unref();
+    }
+
+    public append(table: string, rows: object[]) {
+        if (rows.length === 0) {
+            return;
+        }
+
+        const buffer = this.buffers.get(table) ?? [];
+        buffer.push(...rows);
+        if (buffer.length > this.maxBufferedRows) {
+            console.warn(`[ClickHouseBatchWriter] ${table} buffer overflow, drop ${buffer.length - this.maxBufferedRows} rows`);
+            buffer.splice(0, buffer.length - this.maxBufferedRows);
+        }
+        this.buffers.set(table, buffer);
+
+        if (buffer.length >= this.maxBatchRows) {
+            this.flush();
+        }
+    }
+
+    public async flush(): Promise<void> {
+        // 同一时间只有一个 flush，后来的调用等待当前的完成
+        if (!this.flushing) {
+            this.flushing = this.flushBuffers().finally(() => {
+                this.flushing = null;
+            });
+        }
+
+        return this.flushing;
+    }
+
+    public async close(): Promise<void> {
+        clearInterval(this.flushTimer);
+        await this.flush();
+        await this.client.close();
+    }
+
+    private async flushBuffers() {
+        for (const [table, rows] of this.buffers) {
+            if (rows.length === 0) {
+                continue;
+            }
+
+            const batch = rows.splice(0, rows.length);
+            try {
+                await this.client.insert({ table, values: batch, format: 'JSONEachRow' });
+            } catch (error) {
+                console.error(`[ClickHouseBatchWriter] insert ${table} failed (${batch.length} rows): ${error.message}`);
+                // 放回缓冲区头部，下一次重试
+                rows.unshift(...batch);
+            }
+        }
+    }
+}
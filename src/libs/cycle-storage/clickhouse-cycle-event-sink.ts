@@ -0,0 +1,36 @@
+import { ClickHouseBatchWriter, ClickHouseBatchWriterOptions } from './clickhouse-batch-writer';
+import { CycleEvent, CycleEventSink, CycleEventSinkType } from './interfaces';
+
+export const CLICKHOUSE_EVENTS_TABLE = 'up_down_cycle_events';
+
+/**
+ * ClickHouse 事件输出，公共字段单独成列，其余字段写入 data (JSON 字符串)，表结构见 schemas/0.6.sql
+ */
+export class ClickHouseCycleEventSink implements CycleEventSink {
+    public readonly type: CycleEventSinkType = 'clickhouse';
+
+    private readonly writer: ClickHouseBatchWriter;
+
+    public constructor(options: ClickHouseBatchWriterOptions | ClickHouseBatchWriter = {}) {
+        this.writer = options instanceof ClickHouseBatchWriter ? options : new ClickHouseBatchWriter(options);
+    }
+
+    public write(event: CycleEvent) {
+        const { slug, timestamp, type, ...data } = event;
+        this.writer.append(CLICKHOUSE_EVENTS_TABLE, [{
+            slug,
+            timestamp,
+            type,
+            strategy: 'strategy' in event ? event.strategy : '',
+            data: JSON.stringify(data),
+        }]);
+    }
+
+    public async flush(): Promise<void> {
+        await this.writer.flush();
+    }
+
+    public async close(): Promise<void> {
+        await this.writer.close();
+    }
+}
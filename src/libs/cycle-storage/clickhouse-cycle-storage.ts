@@ -0,0 +1,91 @@
+import { ClickHouseBatchWriter, ClickHouseBatchWriterOptions } from './clickhouse-batch-writer';
+import { CycleBidRecord, CycleData, CycleStorage, CycleStorageType } from './interfaces';
+
+export const CLICKHOUSE_TABLES = {
+    cycles: 'up_down_cycles',
+    priceRecords: 'up_down_price_records',
+    chainlinkPrices: 'up_down_chainlink_prices',
+    aggregatedPrices: 'up_down_aggregated_prices',
+    bids: 'up_down_bids',
+    simulatedBids: 'up_down_simulated_bids',
+} as const;
+
+/**
+ * ClickHouse 存储，按表批量写入，表结构见 schemas/0.5.sql
+ */
+export class ClickHouseCycleStorage implements CycleStorage {
+    public readonly type: CycleStorageType = 'clickhouse';
+
+    private readonly writer: ClickHouseBatchWriter;
+
+    public constructor(options: ClickHouseBatchWriterOptions | ClickHouseBatchWriter = {}) {
+        this.writer = options instanceof ClickHouseBatchWriter ? options : new ClickHouseBatchWriter(options);
+    }
+
+    public async saveCycle(data: CycleData): Promise<void> {
+        const slug = data.slug;
+
+        this.writer.append(CLICKHOUSE_TABLES.cycles, [{
+            slug,
+            start_timestamp: Number(slug.split('-')[3]),
+            price_to_beat: data.priceToBeat?.price ?? null,
+            price_to_beat_source: data.priceToBeat?.source ?? '',
+            price_to_beat_confirmed: data.priceToBeat?.confirmed ? 1 : 0,
+            chainlink_tracking: JSON.stringify(data.chainlinkTracking ?? null),
+        }]);
+
+        this.writer.append(CLICKHOUSE_TABLES.priceRecords, data.priceRecords.map(({ timestamp, ...prices }) => ({
+            slug,
+            timestamp,
+            prices,
+        })));
+
+        this.writer.append(CLICKHOUSE_TABLES.chainlinkPrices, data.btcPrices.map((point) => ({
+            slug,
+            timestamp: point.timestamp,
+            price: point.price,
+        })));
+
+        // 聚合价格与各聚合方式价格在同一次更新中写入，按时间戳对应
+        const modePricesByTimestamp = new Map(data.aggregatedModePrices.map((item) => [item.timestamp, item.modePrices]));
+        this.writer.append(CLICKHOUSE_TABLES.aggregatedPrices, data.btcAggregatedPrices.map((point) => {
+            const modePrices = modePricesByTimestamp.get(point.timestamp);
+            return {
+                slug,
+                timestamp: point.timestamp,
+                price: point.price,
+                median_price: modePrices?.median ?? null,
+                vwap_price: modePrices?.vwap ?? null,
+                hybrid_price: modePrices?.hybrid ?? null,
+            };
+        }));
+
+        this.writer.append(CLICKHOUSE_TABLES.bids, data.bidResults.map((record) => this.toBidRow(slug, record)));
+        this.writer.append(CLICKHOUSE_TABLES.simulatedBids, data.simulatedBidResults.map((record) => this.toBidRow(slug, record)));
+    }
+
+    public async flush(): Promise<void> {
+        await this.writer.flush();
+    }
+
+    public async close(): Promise<void> {
+        await this.writer.close();
+    }
+
+    private toBidRow(slug: string, record: CycleBidRecord) {
+        return {
+            slug,
+            type: record.type,
+            outcome: record.outcome,
+            price: record.price,
+            shares: record.shares,
+            timestamp: new Date(record.timestamp).getTime(),
+            create_order_cost: record.createOrderCost ?? null,
+            post_order_cost: record.postOrderCost ?? null,
+            exit_reason: record.exit?.reason ?? '',
+            exit_price: record.exit?.price ?? null,
+            exit_shares: record.exit?.shares ?? null,
+            exit_pnl: record.exit?.pnl ?? null,
+        };
+    }
+}
@@ -0,0 +1,41 @@
+import { CycleEvent, CycleEventSink, CycleFillEvent, CycleOrderEvent, CycleTickSource } from './interfaces';
+
+/**
+ * 周期事件记录
+ *
+ * executor 把行情 tick、策略信号、订单、成交发布到这里，由 sink 决定写到哪里（JSONL / ClickHouse / 内存）；
+ * 事件自动带上当前周期的 slug，周期切换时调用 setSlug；首次 setSlug 之前（行情已连接但周期未初始化）的事件直接丢弃
+ */
+export class CycleRecorder {
+    private slug: string = '';
+
+    public constructor(public readonly sink: CycleEventSink) {}
+
+    public setSlug(slug: string) {
+        this.slug = slug;
+    }
+
+    public recordTick(source: CycleTickSource, timestamp: number, data: Record<string, number>) {
+        this.write({ type: 'tick', slug: this.slug, timestamp, source, data });
+    }
+
+    public recordSignal(strategy: string, outcome: string) {
+        this.write({ type: 'signal', slug: this.slug, timestamp: Date.now(), strategy, outcome });
+    }
+
+    public recordOrder(order: Omit<CycleOrderEvent, 'type' | 'slug' | 'timestamp'>) {
+        this.write({ type: 'order', slug: this.slug, timestamp: Date.now(), ...order });
+    }
+
+    public recordFill(fill: Omit<CycleFillEvent, 'type' | 'slug' | 'timestamp'>) {
+        this.write({ type: 'fill', slug: this.slug, timestamp: Date.now(), ...fill });
+    }
+
+    private write(event: CycleEvent) {
+        if (!this.slug) {
+            return;
+        }
+
+        this.sink.write(event);
+    }
+}
@@ -0,0 +1,71 @@
+import { ClickHouseBatchWriter } from './clickhouse-batch-writer';
+import { ClickHouseCycleEventSink } from './clickhouse-cycle-event-sink';
+import { ClickHouseCycleStorage } from './clickhouse-cycle-storage';
+import { CycleEventSink, CycleEventSinkType, CycleStorage, CycleStorageType } from './interfaces';
+import { JsonCycleStorage } from './json-cycle-storage';
+import { JsonlCycleEventSink } from './jsonl-cycle-event-sink';
+import { MemoryCycleEventSink } from './memory-cycle-event-sink';
+import { NoopCycleEventSink } from './noop-cycle-event-sink';
+
+export const CYCLE_STORAGE_TYPES: readonly CycleStorageType[] = ['json', 'clickhouse'];
+export const CYCLE_EVENT_SINK_TYPES: readonly CycleEventSinkType[] = ['none', 'jsonl', 'clickhouse', 'memory'];
+
+let sharedStorage: CycleStorage = null;
+let sharedClickHouseWriter: ClickHouseBatchWriter = null;
+
+/**
+ * 同一进程共用一个 ClickHouse 连接和批量缓冲
+ * CLICKHOUSE_URL / CLICKHOUSE_USERNAME / CLICKHOUSE_PASSWORD / CLICKHOUSE_DATABASE
+ */
+function getClickHouseWriter(): ClickHouseBatchWriter {
+    if (!sharedClickHouseWriter) {
+        sharedClickHouseWriter = new ClickHouseBatchWriter({
+            url: process.env.CLICKHOUSE_URL,
+            username: process.env.CLICKHOUSE_USERNAME,
+            password: process.env.CLICKHOUSE_PASSWORD,
+            database: process.env.CLICKHOUSE_DATABASE,
+        });
+    }
+
+    return sharedClickHouseWriter;
+}
+
+function parseType<T extends string>(name: string, value: string, types: readonly T[]): T {
+    if (!types.includes(value as T)) {
+        throw new Error(`Unsupported ${name}: ${value}, expected ${types.join(' / ')}`);
+    }
+
+    return value as T;
+}
+
+/**
+ * 按环境变量 CYCLE_STORAGE（json 默认 / clickhouse）创建周期数据存储，同一进程内的 executor 共用一个实例
+ */
+export function getCycleStorage(): CycleStorage {
+    if (sharedStorage) {
+        return sharedStorage;
+    }
+
+    const type = parseType('CYCLE_STORAGE', process.env.CYCLE_STORAGE || 'json', CYCLE_STORAGE_TYPES);
+    sharedStorage = type === 'clickhouse' ? new ClickHouseCycleStorage(getClickHouseWriter()) : new JsonCycleStorage();
+
+    return sharedStorage;
+}
+
+/**
+ * 按环境变量 CYCLE_EVENT_SINK（none 默认 / jsonl / clickhouse / memory）创建事件输出
+ * 每个 executor 一个实例（jsonl 按 executor 的周期切换文件）；逐 tick 写出量大，需要时再显式开启
+ */
+export function createCycleEventSink(): CycleEventSink {
+    const type = parseType('CYCLE_EVENT_SINK', process.env.CYCLE_EVENT_SINK || 'none', CYCLE_EVENT_SINK_TYPES);
+    switch (type) {
+        case 'clickhouse':
+            return new ClickHouseCycleEventSink(getClickHouseWriter());
+        case 'jsonl':
+            return new JsonlCycleEventSink();
+        case 'memory':
+            return new MemoryCycleEventSink();
+        default:
+            return new NoopCycleEventSink();
+    }
+}
@@ -0,0 +1,144 @@
+import { AggregationMode } from '../aggregated-price/interfaces';
+
+/**
+ * 周期数据存储方式
+ * - json: 写入 ./bid-results 下的 JSON 文件（默认，回测 / 分析脚本读取）
+ * - clickhouse: 批量写入 ClickHouse，表结构见 schemas/0.5.sql
+ */
+export type CycleStorageType = 'json' | 'clickhouse';
+
+/** 价格点 (ms) */
+export interface CyclePricePoint {
+    timestamp: number;
+    price: number;
+}
+
+/** Polymarket 盘口价格记录：outcome -> best ask */
+export interface CyclePriceRecord {
+    timestamp: number;
+    [outcome: string]: number;
+}
+
+export interface CycleAggregatedModePrice {
+    timestamp: number;
+    modePrices: Record<AggregationMode, number | null>;
+}
+
+/** 下注记录（实盘 / 模拟），exit 为持仓期间的平仓记录 */
+export interface CycleBidRecord {
+    type: string;
+    outcome: string;
+    price: number;
+    shares: number;
+    timestamp: string;
+    createOrderCost?: number;
+    postOrderCost?: number;
+    exit?: {
+        reason: string;
+        price: number;
+        shares: number;
+        timestamp: string;
+        pnl: number;
+    };
+}
+
+/**
+ * 一个周期结束时需要保存的全部数据，价格序列均为 新 -> 旧
+ */
+export interface CycleData {
+    slug: string;
+    priceRecords: CyclePriceRecord[];
+    btcPrices: CyclePricePoint[];
+    btcAggregatedPrices: CyclePricePoint[];
+    aggregatedModePrices: CycleAggregatedModePrice[];
+    bidResults: CycleBidRecord[];
+    simulatedBidResults: CycleBidRecord[];
+    priceToBeat: { price: number; source: string; confirmed: boolean } | null;
+    chainlinkTracking: object | null;
+}
+
+/**
+ * 周期数据存储，saveCycle 不阻塞调用方（executor 的 1 秒定时任务）
+ */
+export interface CycleStorage {
+    readonly type: CycleStorageType;
+
+    saveCycle(data: CycleData): Promise<void>;
+
+    /** 写出所有缓冲数据 */
+    flush(): Promise<void>;
+
+    close(): Promise<void>;
+}
+
+/**
+ * 周期事件输出方式
+ * - none: 不输出（默认）
+ * - jsonl: 每个周期一个 ./bid-results/{slug}-events.jsonl
+ * - clickhouse: 批量写入 up_down_cycle_events
+ * - memory: 保存在内存中，用于测试
+ */
+export type CycleEventSinkType = 'none' | 'jsonl' | 'clickhouse' | 'memory';
+
+/**
+ * 行情 tick 来源
+ * - order-book: 盘口 price_change，data 为 outcome -> best ask
+ * - chainlink / aggregated: 价格点
+ */
+export type CycleTickSource = 'order-book' | 'chainlink' | 'aggregated';
+
+interface CycleEventBase {
+    slug: string;
+    timestamp: number;      // ms
+}
+
+export interface CycleTickEvent extends CycleEventBase {
+    type: 'tick';
+    source: CycleTickSource;
+    data: Record<string, number>;
+}
+
+/** 策略触发信号 */
+export interface CycleSignalEvent extends CycleEventBase {
+    type: 'signal';
+    strategy: string;
+    outcome: string;
+}
+
+/** 提交的订单，simulated 为模拟下单 */
+export interface CycleOrderEvent extends CycleEventBase {
+    type: 'order';
+    strategy: string;
+    outcome: string;
+    side: 'BUY' | 'SELL';
+    price: number;          // 限价
+    amount: number;         // BUY 为 USDC，SELL 为份额
+    simulated: boolean;
+}
+
+/** 成交 */
+export interface CycleFillEvent extends CycleEventBase {
+    type: 'fill';
+    strategy: string;
+    outcome: string;
+    side: 'BUY' | 'SELL';
+    price: number;          // 成交均价
+    shares: number;
+    simulated: boolean;
+}
+
+export type CycleEvent = CycleTickEvent | CycleSignalEvent | CycleOrderEvent | CycleFillEvent;
+
+/**
+ * 周期事件输出，write 不阻塞调用方，由实现自行缓冲
+ */
+export interface CycleEventSink {
+    readonly type: CycleEventSinkType;
+
+    write(event: CycleEvent): void;
+
+    /** 写出所有缓冲事件 */
+    flush(): Promise<void>;
+
+    close(): Promise<void>;
+}
@@ -0,0 +1,34 @@
+import * as Fs from 'fs';
+import * as Path from 'path';
+import { CycleData, CycleStorage, CycleStorageType } from './interfaces';
+
+/**
+ * JSON 文件存储，文件名与回测 cycle-loader 读取的一致
+ */
+export class JsonCycleStorage implements CycleStorage {
+    public readonly type: CycleStorageType = 'json';
+
+    public constructor(private readonly bidResultsDir: string = './bid-results') {}
+
+    public async saveCycle(data: CycleData): Promise<void> {
+        const files: Record<string, unknown> = {
+            'price-records': data.priceRecords,
+            'btc-prices': data.btcPrices,
+            'btc-aggregated-prices': data.btcAggregatedPrices,
+            'aggregated-mode-prices': data.aggregatedModePrices,
+            'bid-results': data.bidResults,
+            'simulated-bid-results': data.simulatedBidResults,
+            'price-to-beat': data.priceToBeat,
+            'chainlink-tracking': data.chainlinkTracking,
+        };
+
+        await Fs.promises.mkdir(this.bidResultsDir, { recursive: true });
+        await Promise.all(Object.entries(files).map(([name, value]) =>
+            Fs.promises.writeFile(Path.join(this.bidResultsDir, `${data.slug}-${name}.json`), JSON.stringify(value ?? null)),
+        ));
+    }
+
+    public async flush(): Promise<void> {}
+
+    public async close(): Promise<void> {}
+}
@@ -0,0 +1,43 @@
+import * as Fs from 'fs';
+import * as Path from 'path';
+import { CycleEvent, CycleEventSink, CycleEventSinkType } from './interfaces';
+
+/**
+ * JSON Lines 事件输出，每个周期一个 {slug}-events.jsonl，追加写入
+ */
+export class JsonlCycleEventSink implements CycleEventSink {
+    public readonly type: CycleEventSinkType = 'jsonl';
+
+    private streams = new Map<string, Fs.WriteStream>();
+
+    public constructor(private readonly bidResultsDir: string = './bid-results') {}
+
+    public write(event: CycleEvent) {
+        let stream = this.streams.get(event.slug);
+        if (!stream) {
+            // 切换到新周期时关闭旧周期的文件
+            this.closeStreams();
+            Fs.mkdirSync(this.bidResultsDir, { recursive: true });
+            stream = Fs.createWriteStream(Path.join(this.bidResultsDir, `${event.slug}-events.jsonl`), { flags: 'a' });
+            stream.on('error', (error) => console.error(`[JsonlCycleEventSink] write ${event.slug} failed: ${error.message}`));
+            this.streams.set(event.slug, stream);
+        }
+
+        stream.write(`${JSON.stringify(event)}\n`);
+    }
+
+    public async flush(): Promise<void> {
+        // WriteStream 按顺序写出，写一个空 chunk 等待之前的数据落盘
+        await Promise.all(Array.from(this.streams.values()).map((stream) => new Promise<void>((resolve) => stream.write('', () => resolve()))));
+    }
+
+    public async close(): Promise<void> {
+        await Promise.all(this.closeStreams());
+    }
+
+    private closeStreams(): Promise<void>[] {
+        const closing = Array.from(this.streams.values()).map((stream) => new Promise<void>((resolve) => stream.end(() => resolve())));
+        this.streams.clear();
+        return closing;
+    }
+}
@@ -0,0 +1,29 @@
+import { CycleEvent, CycleEventSink, CycleEventSinkType } from './interfaces';
+
+/**
+ * 内存事件输出，不做任何 I/O，用于测试
+ */
+export class MemoryCycleEventSink implements CycleEventSink {
+    public readonly type: CycleEventSinkType = 'memory';
+
+    private events: CycleEvent[] = [];
+
+    public write(event: CycleEvent) {
+        this.events.push(event);
+    }
+
+    /**
+     * 按写入顺序返回事件，可按类型过滤
+     */
+    public getEvents<T extends CycleEvent['type']>(type?: T): Extract<CycleEvent, { type: T }>[] {
+        return this.events.filter((event) => !type || event.type === type) as Extract<CycleEvent, { type: T }>[];
+    }
+
+    public clear() {
+        this.events = [];
+    }
+
+    public async flush(): Promise<void> {}
+
+    public async close(): Promise<void> {}
+}
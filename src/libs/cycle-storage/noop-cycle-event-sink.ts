@@ -0,0 +1,14 @@
+import { CycleEventSink, CycleEventSinkType } from './interfaces';
+
+/**
+ * 不输出任何事件（默认），CYCLE_EVENT_SINK 未配置时使用
+ */
+export class NoopCycleEventSink implements CycleEventSink {
+    public readonly type: CycleEventSinkType = 'none';
+
+    public write() {}
+
+    public async flush(): Promise<void> {}
+
+    public async close(): Promise<void> {}
+}
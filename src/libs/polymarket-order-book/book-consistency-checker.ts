@@ -0,0 +1,88 @@
+import { IPriceMap } from "./interfaces";
+
+/** 同一价格两边 size 不一致的档位 */
+export interface IBookLevelMismatch {
+    side: 'bid' | 'ask';
+    price: string;
+    syntheticSize: number;
+    actualSize: number;
+}
+
+/** 由 YES 反转得到的 NO 订单簿与实际订阅的 NO 订单簿的对比结果 */
+export interface IBookConsistencyReport {
+    consistent: boolean;
+    syntheticBestBid: number | null;
+    syntheticBestAsk: number | null;
+    actualBestBid: number | null;
+    actualBestAsk: number | null;
+    mismatches: IBookLevelMismatch[];
+}
+
+/**
+ * 订单簿一致性检查器
+ *
+ * 功能：逐档对比合成订单簿与实际订单簿（价格按数值比较，反转后的价格为 4 位小数）
+ */
+export class BookConsistencyChecker {
+    /**
+     * 对比订单簿
+     * @param synthetic - 由 YES 订单簿反转得到的 NO 订单簿
+     * @param actual - 实际订阅的 NO 订单簿
+     * @param sizeTolerance - size 允许的误差
+     */
+    public static compare(synthetic: IPriceMap, actual: IPriceMap, sizeTolerance: number = 1e-6): IBookConsistencyReport {
+        const mismatches = [
+            ...this._compareSide('bid', synthetic.bids, actual.bids, sizeTolerance),
+            ...this._compareSide('ask', synthetic.asks, actual.asks, sizeTolerance),
+        ];
+
+        return {
+            consistent: mismatches.length === 0,
+            syntheticBestBid: this._bestPrice(synthetic.bids, 'bid'),
+            syntheticBestAsk: this._bestPrice(synthetic.asks, 'ask'),
+            actualBestBid: this._bestPrice(actual.bids, 'bid'),
+            actualBestAsk: this._bestPrice(actual.asks, 'ask'),
+            mismatches,
+        };
+    }
+
+    private static _compareSide(side: 'bid' | 'ask', synthetic: Map<string, string>, actual: Map<string, string>, sizeTolerance: number): IBookLevelMismatch[] {
+        const syntheticSizes = this._normalize(synthetic);
+        const actualSizes = this._normalize(actual);
+        const prices = new Set([...syntheticSizes.keys(), ...actualSizes.keys()]);
+
+        const mismatches: IBookLevelMismatch[] = [];
+        for (const price of prices) {
+            const syntheticSize = syntheticSizes.get(price) ?? 0;
+            const actualSize = actualSizes.get(price) ?? 0;
+            if (Math.abs(syntheticSize - actualSize) > sizeTolerance) {
+                mismatches.push({ side, price, syntheticSize, actualSize });
+            }
+        }
+
+        return mismatches.sort((a, b) => parseFloat(a.price) - parseFloat(b.price));
+    }
+
+    /**
+     * 价格统一为 4 位小数，过滤 size 为 0 的档位
+     */
+    private static _normalize(levels: Map<string, string>): Map<string, number> {
+        const result = new Map<string, number>();
+        levels.forEach((size, price) => {
+            const sizeNum = parseFloat(size);
+            if (sizeNum > 0) {
+                const key = parseFloat(price).toFixed(4);
+                result.set(key, (result.get(key) ?? 0) + sizeNum);
+            }
+        });
+        return result;
+    }
+
+    private static _bestPrice(levels: Map<string, string>, side: 'bid' | 'ask'): number | null {
+        const prices = Array.from(levels.keys()).map((price) => parseFloat(price));
+        if (prices.length === 0) {
+            return null;
+        }
+        return side === 'bid' ? Math.max(...prices) : Math.min(...prices);
+    }
+}
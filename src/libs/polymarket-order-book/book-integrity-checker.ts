@@ -0,0 +1,116 @@
+import { createHash } from "crypto";
+import { IPriceMap } from "./interfaces";
+
+/**
+ * 订单簿完整性问题
+ * - HASH_MISMATCH: 快照的 hash 与按内容重新计算的不一致
+ * - CROSSED_BOOK: 应用增量后 best bid >= best ask
+ * - BEST_PRICE_MISMATCH: 应用增量后的最优价与 price_change 推送的 best_bid / best_ask 不一致（有增量丢失）
+ * - STALE_DELTA: 增量时间戳不晚于最近快照，被丢弃
+ */
+export type BookIntegrityIssue = 'HASH_MISMATCH' | 'CROSSED_BOOK' | 'BEST_PRICE_MISMATCH' | 'STALE_DELTA';
+
+/** 需要从 REST 重新拉取快照的问题 */
+export const RESYNC_ISSUES: BookIntegrityIssue[] = ['HASH_MISMATCH', 'CROSSED_BOOK', 'BEST_PRICE_MISMATCH'];
+
+export interface IBookIntegrityEvent {
+    assetId: string;
+    issue: BookIntegrityIssue;
+    detail: string;
+    ts: number;
+}
+
+/** price_change 推送中服务端给出的应用变化后的最优价 */
+export interface IReportedBestPrices {
+    bestBid: number | null;
+    bestAsk: number | null;
+}
+
+/**
+ * 订单簿完整性检查器
+ *
+ * 功能：
+ * 1. 按 clob-client generateOrderBookSummaryHash 的算法校验快照 hash
+ * 2. 检查交叉盘口和服务端推送的最优价
+ *
+ * price_change 中的 hash 不校验：服务端对完整的 book summary（含 market / timestamp / tick_size 等字段）计算 hash，
+ * 本地订单簿只有价位和数量，无法复原同样的 JSON；应用增量后改为对比同一条推送中的 best_bid / best_ask
+ */
+export class BookIntegrityChecker {
+    /**
+     * 快照 hash：hash 字段置空后对 JSON 做 SHA-1（字段顺序与服务端返回一致）
+     */
+    public static computeHash(summary: Record<string, any>): string {
+        return createHash('sha1').update(JSON.stringify({ ...summary, hash: '' })).digest('hex');
+    }
+
+    /**
+     * 没有 hash 字段时视为通过
+     */
+    public static verifyHash(summary: Record<string, any>): boolean {
+        return !summary.hash || this.computeHash(summary) === summary.hash;
+    }
+
+    public static getBestPrices(priceMap: IPriceMap): IReportedBestPrices {
+        const bids = this._positivePrices(priceMap.bids);
+        const asks = this._positivePrices(priceMap.asks);
+        return {
+            bestBid: bids.length > 0 ? Math.max(...bids) : null,
+            bestAsk: asks.length > 0 ? Math.min(...asks) : null,
+        };
+    }
+
+    public static isCrossed(priceMap: IPriceMap): boolean {
+        const { bestBid, bestAsk } = this.getBestPrices(priceMap);
+        return bestBid !== null && bestAsk !== null && bestBid >= bestAsk;
+    }
+
+    /**
+     * 从 price_change 消息中取每个资产最后一条变化的 best_bid / best_ask
+     */
+    public static getReportedBestPrices(msg: any): Map<string, IReportedBestPrices> {
+        const result = new Map<string, IReportedBestPrices>();
+        for (const change of Array.isArray(msg?.price_changes) ? msg.price_changes : []) {
+            if (change.best_bid === undefined && change.best_ask === undefined) {
+                continue;
+            }
+
+            result.set(String(change.asset_id || '').toLowerCase(), {
+                bestBid: this._parseBestPrice(change.best_bid),
+                bestAsk: this._parseBestPrice(change.best_ask),
+            });
+        }
+        return result;
+    }
+
+    /**
+     * 对比本地订单簿与服务端推送的最优价，返回不一致的描述，一致时返回 null
+     */
+    public static compareBestPrices(priceMap: IPriceMap, reported: IReportedBestPrices): string | null {
+        const local = this.getBestPrices(priceMap);
+        const same = (a: number | null, b: number | null) => (a === null && b === null) || (a !== null && b !== null && Math.abs(a - b) < 1e-9);
+        if (same(local.bestBid, reported.bestBid) && same(local.bestAsk, reported.bestAsk)) {
+            return null;
+        }
+
+        return `local ${local.bestBid}/${local.bestAsk} vs reported ${reported.bestBid}/${reported.bestAsk}`;
+    }
+
+    private static _positivePrices(levels: Map<string, string>): number[] {
+        const prices: number[] = [];
+        levels.forEach((size, price) => {
+            if (parseFloat(size) > 0) {
+                prices.push(parseFloat(price));
+            }
+        });
+        return prices;
+    }
+
+    /**
+     * 空盘口时服务端推送 0（bid）或 1（ask），统一为 null
+     */
+    private static _parseBestPrice(value: any): number | null {
+        const price = parseFloat(value);
+        return Number.isFinite(price) && price > 0 && price < 1 ? price : null;
+    }
+}
@@ -206,6 +206,64 @@ export interface IWsTickSizeChangeEvent {
 
 export type IWsEvent = IWsBookEvent | IWsPriceChangeEvent | IWsLastTradePriceEvent | IWsTickSizeChangeEvent;
 
+/** MessageQueue 处理结果 */
+export interface IQueueSnapshotResult {
+    type: 'snapshot' | 'minified';
+    assetId: string;
+    data: IProjectedOrderBook;
+}
+
+export interface IQueueLastTradePriceResult {
+    type: 'last-trade-price';
+    assetId: string;
+    price: string;
+    side: string;
+    ts: number;
+}
+
+export interface IQueueTickSizeChangeResult {
+    type: 'tick-size-change';
+    assetId: string;
+    origin: 'market';
+    newTickSize: number;
+    ts: number;
+}
+
+export type IQueueResult = IQueueSnapshotResult | IQueueLastTradePriceResult | IQueueTickSizeChangeResult;
+
+/** OrderBookManager 发布的事件，订单簿快照全部到达后才发布 */
+export interface IOrderBookSnapshotEvent {
+    type: 'book';
+    assetId: string;
+    book: IProjectedOrderBook;
+    ts: number;             // 消息时间戳 (ms)
+}
+
+export interface IBestPriceChangeEvent {
+    type: 'best-price';
+    assetId: string;
+    bestBid: number | null;
+    bestAsk: number | null;
+    ts: number;
+}
+
+export interface ILastTradeEvent {
+    type: 'last-trade';
+    assetId: string;
+    price: number;
+    side: string;
+    ts: number;
+}
+
+export interface ITickSizeChangeEvent {
+    type: 'tick-size';
+    assetId: string;
+    tickSize: number;
+    ts: number;
+}
+
+export type IOrderBookEvent = IOrderBookSnapshotEvent | IBestPriceChangeEvent | ILastTradeEvent | ITickSizeChangeEvent;
+
 /** Clamp 结果 */
 export interface IClampResult {
     valid: boolean;
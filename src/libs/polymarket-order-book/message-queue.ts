@@ -1,5 +1,5 @@
 import { DeltaProcessor } from "./delta-processor";
-import { IPriceMap, IProjectedOrderBook, IOrderLevel, IWsEvent, IWsLastTradePriceEvent, IWsTickSizeChangeEvent, IWsPriceChangeEvent, IWsBookEvent } from "./interfaces";
+import { IPriceMap, IProjectedOrderBook, IOrderLevel, IWsEvent, IWsLastTradePriceEvent, IWsTickSizeChangeEvent, IWsPriceChangeEvent, IWsBookEvent, IQueueResult } from "./interfaces";
 import { getPrecisionFromPrice } from "./utils";
 
 /**
@@ -91,7 +91,7 @@ export class MessageQueue {
             status: string;
             data?: IProjectedOrderBook;
         };
-    }): IWsEvent[] {
+    }): IQueueResult[] {
         const events = this.drain();
         if (!events.length) return [];
 
@@ -143,7 +143,7 @@ export class MessageQueue {
             }
         });
 
-        const results: any[] = [];
+        const results: IQueueResult[] = [];
 
         // 处理每个资产
         Object.entries(grouped).forEach(([assetId, group]) => {
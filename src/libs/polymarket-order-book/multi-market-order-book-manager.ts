@@ -0,0 +1,174 @@
+import { ConnectionState, WebSocketConnection, WebSocketTransport } from '../websocket-connection';
+import { IMarket } from './interfaces';
+import { OrderBookChannel, OrderBookManager, OrderBookManagerOptions, POLYMARKET_WS_URL } from './order-book-manager';
+import { WsMessageRecorder } from './ws-message-recorder';
+
+export interface MultiMarketOrderBookManagerOptions {
+    recorder?: WsMessageRecorder;   // 录制收到的原始消息
+    transport?: WebSocketTransport; // 默认使用全局 transport
+    onStateChange?: (state: ConnectionState) => void;
+    reconnectBaseDelayMs?: number;  // 初始重连延迟，默认 1000
+}
+
+/** addMarket 的单市场参数，连接相关参数由共享连接负责 */
+export type MarketOrderBookOptions = Omit<OrderBookManagerOptions, 'channel' | 'recorder' | 'transport' | 'onStateChange' | 'reconnectBaseDelayMs'>;
+
+/**
+ * 多市场订单簿管理：一个 WebSocket 连接上动态增删多个市场的订阅
+ *
+ * 每个市场仍由一个 OrderBookManager 维护各自资产的订单簿，连接、重连和消息分发在这里统一处理；
+ * 下一个周期的市场可以在切换前 addMarket 预先订阅，切换时订单簿已有快照
+ */
+export class MultiMarketOrderBookManager {
+    private connection: WebSocketConnection = null;
+    private markets: Map<string, OrderBookManager> = new Map();
+    private assetOwners: Map<string, OrderBookManager> = new Map();
+    private hasSentInitialSubscription: boolean = false;
+
+    public constructor(private readonly options: MultiMarketOrderBookManagerOptions = {}) {}
+
+    /**
+     * 建立连接，可以在 addMarket 之前或之后调用
+     */
+    public connect() {
+        if (this.connection) {
+            return;
+        }
+
+        this.connection = new WebSocketConnection({
+            url: POLYMARKET_WS_URL,
+            transport: this.options.transport,
+            maxReconnectAttempts: 0, // 无限重连
+            reconnectBaseDelayMs: this.options.reconnectBaseDelayMs ?? 1000,
+            reconnectMaxDelayMs: 30000,
+            onOpen: this.handleOpen.bind(this),
+            onMessage: this.handleMessage.bind(this),
+            onClose: (code: number) => console.warn(`\n[MultiMarketOrderBook] WebSocket 关闭: ${code}`),
+            onReconnect: (attempt: number) => console.log(`[MultiMarketOrderBook] 🔄 重连 (${attempt}/∞)...`),
+            onStateChange: this.options.onStateChange,
+        });
+        this.connection.connect();
+    }
+
+    public isConnected(): boolean {
+        return !!this.connection?.isConnected();
+    }
+
+    /**
+     * 添加市场并订阅其资产，已添加的市场直接返回原实例
+     * 返回的 OrderBookManager 通过 events$ 接收事件，调用 initialize() 不会另建连接
+     */
+    public addMarket(market: IMarket, options: MarketOrderBookOptions = {}): OrderBookManager {
+        const existing = this.markets.get(market.slug);
+        if (existing) {
+            return existing;
+        }
+
+        const manager = new OrderBookManager(market, { ...options, channel: this.createChannel(market.slug) });
+        this.markets.set(market.slug, manager);
+        for (const assetId of manager.getAssetIds()) {
+            this.assetOwners.set(assetId, manager);
+        }
+
+        if (this.isConnected()) {
+            manager.handleOpen();
+        }
+
+        return manager;
+    }
+
+    public getMarket(slug: string): OrderBookManager | null {
+        return this.markets.get(slug) ?? null;
+    }
+
+    public getMarketSlugs(): string[] {
+        return Array.from(this.markets.keys());
+    }
+
+    /**
+     * 取消订阅并移除市场
+     */
+    public removeMarket(slug: string) {
+        this.markets.get(slug)?.destroy();
+    }
+
+    public destroy() {
+        for (const manager of Array.from(this.markets.values())) {
+            manager.destroy();
+        }
+
+        this.connection?.destroy();
+        this.connection = null;
+    }
+
+    /**
+     * 连接（重连）成功后所有市场重新订阅，第一条订阅消息带 type: market，之后按 operation 增量订阅
+     */
+    private handleOpen() {
+        console.log(`[MultiMarketOrderBook] 🔗 WebSocket 连接成功，${this.markets.size} 个市场`);
+        this.hasSentInitialSubscription = false;
+        for (const manager of this.markets.values()) {
+            manager.handleOpen();
+        }
+    }
+
+    private handleMessage(message: string) {
+        this.options.recorder?.record(message);
+
+        let parsed: any;
+        try {
+            parsed = JSON.parse(message);
+        } catch (error) {
+            console.error(`[MultiMarketOrderBook] 无法解析消息: ${message.slice(0, 100)}`);
+            return;
+        }
+
+        // 按资产分发给所属市场，一条消息只分发一次
+        const managers = new Set<OrderBookManager>();
+        for (const msg of Array.isArray(parsed) ? parsed : [parsed]) {
+            const assetIds = [msg?.asset_id, ...(Array.isArray(msg?.price_changes) ? msg.price_changes.map((c: any) => c.asset_id) : [])];
+            for (const assetId of assetIds) {
+                const manager = this.assetOwners.get(String(assetId || '').toLowerCase());
+                if (manager) {
+                    managers.add(manager);
+                }
+            }
+        }
+
+        for (const manager of managers) {
+            manager.handleMessage(message);
+        }
+    }
+
+    private createChannel(slug: string): OrderBookChannel {
+        return {
+            isConnected: () => this.isConnected(),
+            subscribe: (assetIds: string[]) => this.sendSubscription(assetIds, 'subscribe'),
+            unsubscribe: (assetIds: string[]) => {
+                this.markets.delete(slug);
+                for (const assetId of assetIds) {
+                    this.assetOwners.delete(assetId);
+                }
+                this.sendSubscription(assetIds, 'unsubscribe');
+            },
+        };
+    }
+
+    private sendSubscription(assetIds: string[], operation: 'subscribe' | 'unsubscribe') {
+        if (!this.isConnected() || assetIds.length === 0) {
+            return;
+        }
+
+        if (!this.hasSentInitialSubscription) {
+            // 连接上的第一条订阅消息，取消订阅时无需发送
+            if (operation === 'unsubscribe') {
+                return;
+            }
+            this.hasSentInitialSubscription = true;
+            this.connection.sendMessage({ assets_ids: assetIds, type: 'market' });
+            return;
+        }
+
+        this.connection.sendMessage({ assets_ids: assetIds, operation });
+    }
+}
@@ -1,37 +1,75 @@
-import { WebSocket } from 'ws';
-import { HttpsProxyAgent } from 'https-proxy-agent';
-import { IS_DEVELOPMENT } from '../../common/common-types';
-import { IMarket, IPriceMap, IWsEvent } from './interfaces';
+import { Observable, Subject } from 'rxjs';
+import { ConnectionState, WebSocketConnection, WebSocketTransport } from '../websocket-connection';
+import { IBestPriceChangeEvent, IMarket, IOrderBookEvent, IPriceMap, IProjectedOrderBook, IQueueResult, IWsEvent } from './interfaces';
 import { getPrecisionFromPrice } from './utils';
 import { MessageQueue } from './message-queue';
 import { BookBuilder } from './book-builder';
 import { Aggregator } from './aggregator';
 import { Projector } from './projector';
 import { OrderSummary, Side } from '@polymarket/clob-client';
-
-const POLYMARKET_WS_URL = 'wss://ws-subscriptions-clob.polymarket.com/ws/market';
+import { WsMessageRecorder } from './ws-message-recorder';
+import { WsMessageReplayer } from './ws-message-replayer';
+import { BookConsistencyChecker, IBookConsistencyReport } from './book-consistency-checker';
+import { BookIntegrityChecker, BookIntegrityIssue, IBookIntegrityEvent, IReportedBestPrices, RESYNC_ISSUES } from './book-integrity-checker';
+
+export const POLYMARKET_WS_URL = 'wss://ws-subscriptions-clob.polymarket.com/ws/market';
+
+/**
+ * 共享连接上单个市场的订阅通道，由 MultiMarketOrderBookManager 提供
+ */
+export interface OrderBookChannel {
+    isConnected(): boolean;
+    subscribe(assetIds: string[]): void;
+    unsubscribe(assetIds: string[]): void;
+}
+
+export interface OrderBookManagerOptions {
+    channel?: OrderBookChannel;     // 使用共享连接，不再创建自己的 WebSocket（recorder / transport / 重连参数由共享连接负责）
+    recorder?: WsMessageRecorder;   // 录制收到的原始消息
+    transport?: WebSocketTransport; // 默认使用全局 transport
+    subscribeBothOutcomes?: boolean; // 同时订阅两个 outcome，默认只订阅第一个
+    onStateChange?: (state: ConnectionState) => void;
+    snapshotTimeoutMs?: number;     // 订阅后超过该时长没有收到快照则重新订阅，默认 5 秒
+    reconnectBaseDelayMs?: number;  // 初始重连延迟，默认 1000
+    fetchBook?: (tokenId: string) => Promise<any>;  // CLOB REST /book，完整性检查失败时重新同步；不提供则重新订阅
+    verifySnapshotHash?: boolean;   // 校验 WebSocket 快照的 hash，默认 false（REST 快照总是校验）
+    onIntegrityEvent?: (event: IBookIntegrityEvent) => void;
+}
+
+export type BookIntegrityStats = Record<BookIntegrityIssue | 'RESYNC' | 'RESYNC_FAILED', number>;
 
 export class OrderBookManager {
     private market: IMarket;
     private clobTokenIds: string[];
     private outcomes: string[];
     private subscribedAssetIds: Set<string> = new Set();
-    private onEventUpdate: (event: any) => void = null;
+
+    // 订单簿事件，快照全部到达后发布；destroy 时结束
+    private readonly eventSubject: Subject<IOrderBookEvent> = new Subject();
+    public readonly events$: Observable<IOrderBookEvent> = this.eventSubject.asObservable();
+    private lastBestPrices: Map<string, Pick<IBestPriceChangeEvent, 'bestBid' | 'bestAsk'>> = new Map();
 
     // 状态
-    private wsClient: WebSocket = null;
-    private intervalTimer: NodeJS.Timeout = null;
-    private isInitialized: boolean = false;
+    private connection: WebSocketConnection = null;
     private assetLastBookTs: Map<string, number> = new Map();
     private messageQueue: MessageQueue = new MessageQueue();
 
-    // 重连相关
-    private isDestroyed: boolean = false;
-    private reconnectAttempts: number = 0;
-    private reconnectTimer: NodeJS.Timeout = null;
-    private readonly maxReconnectAttempts = 0; // 0 = 无限重连
-    private readonly reconnectBaseDelayMs = 1000;
-    private readonly reconnectMaxDelayMs = 30000;
+    // 订阅后等待快照的资产，快照到达前忽略增量更新
+    private awaitingSnapshot: Set<string> = new Set();
+    private snapshotTimer: NodeJS.Timeout = null;
+
+    // REST 重新同步中的资产，期间涉及这些资产的消息先缓存，快照应用后按顺序重放
+    private resyncingAssets: Set<string> = new Set();
+    private resyncBuffer: string[] = [];
+    private isReplaying: boolean = false;
+    private integrityStats: BookIntegrityStats = {
+        HASH_MISMATCH: 0,
+        CROSSED_BOOK: 0,
+        BEST_PRICE_MISMATCH: 0,
+        STALE_DELTA: 0,
+        RESYNC: 0,
+        RESYNC_FAILED: 0,
+    };
 
     // 数据存储
     private priceMaps: Record<string, IPriceMap> = {};
@@ -39,171 +77,386 @@ export class OrderBookManager {
     private userTickSizeByAsset: Map<string, number> = new Map();
     private snapshotRequired: Set<string> = new Set();
 
-    public constructor(market: IMarket) {
+    // 原始消息录制，未开启时为 null
+    private recorder: WsMessageRecorder = null;
+
+    private readonly snapshotTimeoutMs: number;
+
+    public constructor(market: IMarket, private readonly options: OrderBookManagerOptions = {}) {
         this.market = market;
+        this.recorder = options.recorder ?? null;
+        this.snapshotTimeoutMs = options.snapshotTimeoutMs ?? 5000;
 
         this.clobTokenIds = JSON.parse(market.clobTokenIds);
         this.outcomes = JSON.parse(market.outcomes);
-        this.subscribedAssetIds.add(this.clobTokenIds[0]);
-        this.marketTickSizeByAsset.set(this.clobTokenIds[0], market.orderPriceMinTickSize);
-
-        this.intervalTimer = setInterval(this.onInterval.bind(this), 1000);
+        // 默认只订阅第一个 outcome，第二个由反转得到；subscribeBothOutcomes 时两个都维护实际订单簿
+        const assetIds = options.subscribeBothOutcomes ? this.clobTokenIds : this.clobTokenIds.slice(0, 1);
+        for (const assetId of assetIds) {
+            this.subscribedAssetIds.add(assetId.toLowerCase());
+            this.marketTickSizeByAsset.set(assetId.toLowerCase(), market.orderPriceMinTickSize);
+        }
+        this.awaitingSnapshot = new Set(this.subscribedAssetIds);
     }
 
-    private onInterval() {
-        if (!this.isInitialized || !this.wsClient) {
+    /**
+     * 建立连接并订阅，订阅 events$ 接收订单簿事件
+     */
+    public initialize() {
+        // 共享连接由 MultiMarketOrderBookManager 转发消息和连接事件
+        if (this.options.channel) {
             return;
         }
 
-        if (Date.now() % 5 === 0) {
-            try {
-                this.wsClient.send('PING');
-            } catch (e) {
-                // 忽略发送错误
-            }
+        this.connection?.destroy();
+        this.connection = new WebSocketConnection({
+            url: POLYMARKET_WS_URL,
+            transport: this.options.transport,
+            maxReconnectAttempts: 0, // 无限重连
+            reconnectBaseDelayMs: this.options.reconnectBaseDelayMs ?? 1000,
+            reconnectMaxDelayMs: 30000,
+            onOpen: this.handleOpen.bind(this),
+            onMessage: (message: string) => {
+                this.recorder?.record(message);
+                this.handleMessage(message);
+            },
+            onClose: (code: number) => console.warn(`\n[OrderBook] WebSocket 关闭: ${code}`),
+            onReconnect: (attempt: number) => console.log(`[OrderBook] 🔄 重连 (${attempt}/∞)...`),
+            onStateChange: this.options.onStateChange,
+        });
+        this.connection.connect();
+    }
+
+    /**
+     * 不连接 WebSocket，用录制的消息驱动订单簿和 events$，返回回放的消息条数
+     */
+    public async replay(replayer: WsMessageReplayer): Promise<number> {
+        // 回放时只统计完整性问题，不拉取当前的 REST 快照
+        this.isReplaying = true;
+        try {
+            return await replayer.replay((message) => this.handleMessage(message));
+        } finally {
+            this.isReplaying = false;
         }
     }
 
-    public initialize(onEventUpdate: (event: any) => void) {
-        this.onEventUpdate = onEventUpdate;
-        this.isDestroyed = false;
-        this.createWebSocket();
+    public getIntegrityStats(): BookIntegrityStats {
+        return { ...this.integrityStats };
     }
 
-    private createWebSocket() {
-        // 如果已销毁，不再创建连接
-        if (this.isDestroyed) {
-            return;
+    public isConnected(): boolean {
+        return this.options.channel ? this.options.channel.isConnected() : !!this.connection?.isConnected();
+    }
+
+    public getAssetIds(): string[] {
+        return Array.from(this.subscribedAssetIds);
+    }
+
+    /**
+     * 所有订阅资产都已收到快照
+     */
+    public isBookReady(): boolean {
+        return this.awaitingSnapshot.size === 0;
+    }
+
+    /**
+     * 连接（重连）成功，共享连接时由 MultiMarketOrderBookManager 调用
+     */
+    public handleOpen() {
+        if (!this.options.channel) {
+            console.log('[OrderBook] 🔗 WebSocket 连接成功');
+        }
+        this.subscribe();
+    }
+
+    /**
+     * 订阅（含重连后重新订阅），服务端订阅后推送 book 快照；
+     * 断线期间的增量已丢失，旧订单簿作废，等待新快照
+     * 传入 assetIds 时只重新订阅这些资产，其余资产的订单簿保持可用
+     */
+    private subscribe(assetIds?: string[]) {
+        const targetAssetIds = assetIds ?? Array.from(this.subscribedAssetIds);
+        for (const assetId of targetAssetIds) {
+            this.awaitingSnapshot.add(assetId);
+        }
+
+        if (this.options.channel) {
+            this.options.channel.subscribe(targetAssetIds);
+        } else if (assetIds) {
+            // 连接上已有订阅，按 operation 增量订阅
+            this.connection.sendMessage({
+                assets_ids: targetAssetIds,
+                operation: 'subscribe',
+            });
+        } else {
+            this.connection.sendMessage({
+                assets_ids: targetAssetIds,
+                type: 'market',
+            });
+        }
+        this.scheduleSnapshotCheck();
+    }
+
+    private scheduleSnapshotCheck() {
+        if (this.snapshotTimer) {
+            clearTimeout(this.snapshotTimer);
         }
 
-        // 清理旧连接
-        if (this.wsClient) {
-            this.wsClient.removeAllListeners();
-            try {
-                this.wsClient.terminate();
-            } catch (e) {
-                // 忽略关闭错误
+        this.snapshotTimer = setTimeout(() => {
+            this.snapshotTimer = null;
+            if (this.awaitingSnapshot.size > 0 && this.isConnected()) {
+                console.warn(`\n[OrderBook] ⚠️ ${this.snapshotTimeoutMs}ms 未收到快照，重新订阅`);
+                const awaiting = Array.from(this.awaitingSnapshot);
+                this.subscribe(awaiting.length === this.subscribedAssetIds.size ? undefined : awaiting);
             }
-            this.wsClient = null;
+        }, this.snapshotTimeoutMs);
+    }
+
+    /**
+     * 处理一条原始消息（实时 WebSocket 或录制回放）
+     */
+    public handleMessage(msgString: string) {
+        if (!msgString) {
+            return;
         }
 
-        let agent: HttpsProxyAgent<string> | undefined;
-        if (IS_DEVELOPMENT) {
-            const proxy = "http://127.0.0.1:7890";
-            agent = new HttpsProxyAgent(proxy);
+        if (msgString === 'PONG') {
+            return;
         }
 
-        this.wsClient = new WebSocket(POLYMARKET_WS_URL, { agent });
+        const msg = JSON.parse(msgString);
+        if (this.resyncingAssets.size > 0 && this.getMessageAssetIds(msg).some((assetId) => this.resyncingAssets.has(assetId))) {
+            this.resyncBuffer.push(msgString);
+            return;
+        }
 
-        this.wsClient.on('open', () => {
-            console.log('[OrderBook] 🔗 WebSocket 连接成功');
-            this.isInitialized = true;
-            this.reconnectAttempts = 0;
-            this.wsClient.send(JSON.stringify({
-                assets_ids: [this.clobTokenIds[0]],
-                type: 'market',
-            }));
+        const wasBookReady = this.isBookReady();
+        const events = this.processMessage(msg);
+        if (events.length === 0) {
+            return;
+        }
+
+        this.countStaleDeltas(events);
+        this.messageQueue.push(events);
+        const results = this.messageQueue.process({
+            priceMaps: this.priceMaps,
+            assetLastBookTs: this.assetLastBookTs,
+            snapshotRequired: this.snapshotRequired,
+            marketTickSizeByAsset: this.marketTickSizeByAsset,
+            project: (assetId, type) => ({ status: 'success', data: this.projectBook(assetId, type === 'minified') }),
         });
+        this.checkIntegrity(msg, events);
 
-        this.wsClient.on('message', (message) => {
-            const msgString = message.toString();
-            if (!msgString) {
-                return;
+        // 重连后快照到达前订单簿不可用，不通知上层
+        if (this.isBookReady()) {
+            this.publishEvents(events, results, !wasBookReady);
+        }
+    }
+
+    private projectBook(assetId: string, minified: boolean = false): IProjectedOrderBook {
+        const { marketTickSize, preferredTickSize, isAggregated } =
+            this.getTickSizeConfig(assetId);
+
+        const priceMap = this.priceMaps[assetId] ?? { bids: new Map(), asks: new Map() };
+        const book = BookBuilder.build(priceMap, marketTickSize);
+        const finalBook = isAggregated
+            ? Aggregator.aggregate(book, preferredTickSize, marketTickSize)
+            : book;
+
+        return Projector.project(finalBook, {
+            tickSize: preferredTickSize,
+            ts: Date.now(),
+            minified,
+        });
+    }
+
+    /**
+     * 把 MessageQueue 的处理结果发布为 events$ 事件，最优价只在变化时发布；
+     * 快照全部到达时（首次或重连后）发布所有资产的订单簿和最优价
+     */
+    private publishEvents(events: IWsEvent[], results: IQueueResult[], isBookRestored: boolean) {
+        const tsByAsset = new Map<string, number>();
+        for (const event of events) {
+            tsByAsset.set(event.assetId, Math.max(tsByAsset.get(event.assetId) ?? 0, event.ts));
+        }
+
+        const books = new Map<string, IProjectedOrderBook>();
+        for (const result of results) {
+            if (result.type === 'snapshot') {
+                books.set(result.assetId, result.data);
             }
+        }
+        if (isBookRestored) {
+            for (const assetId of this.subscribedAssetIds) {
+                if (!books.has(assetId)) {
+                    books.set(assetId, this.projectBook(assetId));
+                }
+            }
+        }
 
-            if (msgString === 'PONG') {
-                return;
+        for (const [assetId, book] of books) {
+            const ts = tsByAsset.get(assetId) ?? this.assetLastBookTs.get(assetId) ?? Date.now();
+            this.eventSubject.next({ type: 'book', assetId, book, ts });
+
+            const { bestBid, bestAsk } = BookIntegrityChecker.getBestPrices(this.priceMaps[assetId]);
+            const previous = this.lastBestPrices.get(assetId);
+            if (isBookRestored || previous?.bestBid !== bestBid || previous?.bestAsk !== bestAsk) {
+                this.lastBestPrices.set(assetId, { bestBid, bestAsk });
+                this.eventSubject.next({ type: 'best-price', assetId, bestBid, bestAsk, ts });
             }
+        }
 
-            const msg = JSON.parse(message.toString());
-            const events = this.processMessage(msg);
-            if (events.length > 0) {
-                this.messageQueue.push(events);
-                this.messageQueue.process({
-                    priceMaps: this.priceMaps,
-                    assetLastBookTs: this.assetLastBookTs,
-                    snapshotRequired: this.snapshotRequired,
-                    marketTickSizeByAsset: this.marketTickSizeByAsset,
-                    project: (assetId, type) => {
-                        const { marketTickSize, preferredTickSize, isAggregated } =
-                            this.getTickSizeConfig(assetId);
-
-                        const priceMap = this.priceMaps[assetId] ?? { bids: new Map(), asks: new Map() };
-                        const book = BookBuilder.build(priceMap, marketTickSize);
-                        const finalBook = isAggregated
-                            ? Aggregator.aggregate(book, preferredTickSize, marketTickSize)
-                            : book;
-
-                        const projected = Projector.project(finalBook, {
-                            tickSize: preferredTickSize,
-                            ts: Date.now(),
-                            minified: type === 'minified'
-                        });
+        for (const result of results) {
+            if (result.type === 'last-trade-price') {
+                this.eventSubject.next({ type: 'last-trade', assetId: result.assetId, price: parseFloat(result.price), side: result.side, ts: result.ts });
+            } else if (result.type === 'tick-size-change') {
+                this.eventSubject.next({ type: 'tick-size', assetId: result.assetId, tickSize: result.newTickSize, ts: result.ts });
+            }
+        }
+    }
 
-                        return { status: 'success', data: projected };
-                    }
-                });
+    private getMessageAssetIds(parsed: any): string[] {
+        const msgs = Array.isArray(parsed) ? parsed : [parsed];
+        return msgs.flatMap((msg) => [
+            ...(msg?.asset_id ? [msg.asset_id] : []),
+            ...(Array.isArray(msg?.price_changes) ? msg.price_changes.map((c: any) => c.asset_id) : []),
+        ]).map((assetId) => String(assetId || '').toLowerCase());
+    }
+
+    /**
+     * 时间戳不晚于最近快照的增量会被 MessageQueue 丢弃，记录次数
+     */
+    private countStaleDeltas(events: IWsEvent[]) {
+        for (const event of events) {
+            if (event.type === 'price_change' && event.ts <= (this.assetLastBookTs.get(event.assetId) ?? 0)) {
+                this.reportIntegrityIssue(event.assetId, 'STALE_DELTA', `ts ${event.ts} <= last book ts ${this.assetLastBookTs.get(event.assetId)}`);
             }
+        }
+    }
 
-            this.onEventUpdate?.(msg);
-        });
+    /**
+     * 应用消息后检查快照 hash、服务端推送的最优价和交叉盘口，发现问题时重新同步该资产
+     */
+    private checkIntegrity(parsed: any, events: IWsEvent[]) {
+        const issues = new Map<string, BookIntegrityIssue>();
+        const report = (assetId: string, issue: BookIntegrityIssue, detail: string) => {
+            this.reportIntegrityIssue(assetId, issue, detail);
+            issues.set(assetId, issue);
+        };
 
-        this.wsClient.on('close', (code) => {
-            console.warn(`\n[OrderBook] WebSocket 关闭: ${code}`);
-            this.isInitialized = false;
-            
-            // 非主动销毁时自动重连
-            if (!this.isDestroyed) {
-                this.scheduleReconnect();
+        for (const msg of Array.isArray(parsed) ? parsed : [parsed]) {
+            if (msg?.event_type === 'book' && this.options.verifySnapshotHash) {
+                const { event_type, ...summary } = msg;
+                if (!BookIntegrityChecker.verifyHash(summary)) {
+                    report(String(msg.asset_id).toLowerCase(), 'HASH_MISMATCH', `hash ${msg.hash}`);
+                }
             }
-        });
 
-        this.wsClient.on('error', (error) => {
-            console.error('[OrderBook] WebSocket 错误:', error.message);
-        });
+            // 早于快照的增量已被丢弃，其推送的最优价对应旧订单簿，不比较
+            const ts = parseInt(msg?.timestamp ?? '0', 10);
+            for (const [assetId, reported] of BookIntegrityChecker.getReportedBestPrices(msg)) {
+                if (!this.subscribedAssetIds.has(assetId) || this.awaitingSnapshot.has(assetId) || !this.priceMaps[assetId]
+                    || ts <= (this.assetLastBookTs.get(assetId) ?? 0)) {
+                    continue;
+                }
+
+                const mismatch = BookIntegrityChecker.compareBestPrices(this.priceMaps[assetId], reported);
+                if (mismatch) {
+                    report(assetId, 'BEST_PRICE_MISMATCH', mismatch);
+                }
+            }
+        }
+
+        for (const assetId of new Set(events.map((event) => event.assetId))) {
+            if (!issues.has(assetId) && this.priceMaps[assetId] && BookIntegrityChecker.isCrossed(this.priceMaps[assetId])) {
+                const { bestBid, bestAsk } = BookIntegrityChecker.getBestPrices(this.priceMaps[assetId]);
+                report(assetId, 'CROSSED_BOOK', `best bid ${bestBid} >= best ask ${bestAsk}`);
+            }
+        }
+
+        for (const [assetId, issue] of issues) {
+            if (RESYNC_ISSUES.includes(issue)) {
+                this.resync(assetId);
+            }
+        }
     }
 
-    private scheduleReconnect() {
-        // 检查是否超过最大重连次数
-        if (this.maxReconnectAttempts > 0 && this.reconnectAttempts >= this.maxReconnectAttempts) {
-            console.error(`[OrderBook] 重连次数超限 (${this.maxReconnectAttempts})，放弃重连`);
+    private reportIntegrityIssue(assetId: string, issue: BookIntegrityIssue, detail: string) {
+        this.integrityStats[issue]++;
+        if (issue !== 'STALE_DELTA') {
+            console.warn(`\n[OrderBook] ⚠️ ${issue} ${assetId}: ${detail}`);
+        }
+        this.options.onIntegrityEvent?.({ assetId, issue, detail, ts: Date.now() });
+    }
+
+    /**
+     * 从 CLOB REST 拉取快照替换本地订单簿；没有 fetchBook、拉取失败或快照 hash 不一致时重新订阅，由 WebSocket 推送快照
+     */
+    private async resync(assetId: string) {
+        if (this.isReplaying || this.resyncingAssets.has(assetId)) {
             return;
         }
 
-        // 指数退避：delay = baseDelay * 2^attempts，加随机抖动
-        const exponentialDelay = this.reconnectBaseDelayMs * Math.pow(2, this.reconnectAttempts);
-        const jitter = Math.random() * 1000;
-        const delay = Math.min(exponentialDelay + jitter, this.reconnectMaxDelayMs);
+        this.integrityStats.RESYNC++;
+        if (!this.options.fetchBook) {
+            this.resubscribe(assetId);
+            return;
+        }
 
-        this.reconnectAttempts++;
-        console.log(`[OrderBook] 🔄 ${Math.round(delay / 1000)}s 后重连 (${this.reconnectAttempts}/${this.maxReconnectAttempts || '∞'})...`);
+        console.warn(`\n[OrderBook] 🔄 ${assetId} 从 REST 重新同步快照`);
+        this.resyncingAssets.add(assetId);
+        try {
+            const summary = await this.options.fetchBook(assetId);
+            this.resyncingAssets.delete(assetId);
+            if (BookIntegrityChecker.verifyHash(summary)) {
+                this.handleMessage(JSON.stringify({ ...summary, asset_id: assetId, event_type: 'book' }));
+            } else {
+                // hash 不一致的快照不可信，不应用，改由 WebSocket 推送快照
+                this.reportIntegrityIssue(assetId, 'HASH_MISMATCH', `REST hash ${summary.hash}`);
+                this.integrityStats.RESYNC_FAILED++;
+                this.resubscribe(assetId);
+            }
+        } catch (error) {
+            this.integrityStats.RESYNC_FAILED++;
+            console.error(`[OrderBook] ${assetId} REST 快照拉取失败: ${error.message}`);
+            this.resyncingAssets.delete(assetId);
+            this.resubscribe(assetId);
+        }
 
-        this.reconnectTimer = setTimeout(() => {
-            this.reconnectTimer = null;
-            this.createWebSocket();
-        }, delay);
+        this.flushResyncBuffer();
     }
 
-    public destroy() {
-        this.isDestroyed = true;
+    /**
+     * 只重新订阅出问题的资产，其他资产不受影响
+     */
+    private resubscribe(assetId: string) {
+        if (this.isConnected()) {
+            this.subscribe([assetId]);
+        } else {
+            this.awaitingSnapshot.add(assetId);
+        }
+    }
 
-        if (this.reconnectTimer) {
-            clearTimeout(this.reconnectTimer);
-            this.reconnectTimer = null;
+    private flushResyncBuffer() {
+        const buffered = this.resyncBuffer;
+        this.resyncBuffer = [];
+        for (const msgString of buffered) {
+            this.handleMessage(msgString);
         }
+    }
 
-        if (this.intervalTimer) {
-            clearInterval(this.intervalTimer);
-            this.intervalTimer = null;
+    public destroy() {
+        if (this.snapshotTimer) {
+            clearTimeout(this.snapshotTimer);
+            this.snapshotTimer = null;
         }
 
-        if (this.wsClient) {
-            this.wsClient.removeAllListeners();
-            this.wsClient.close();
-            this.wsClient = null;
+        if (this.connection) {
+            this.connection.destroy();
+            this.connection = null;
         }
-        
-        this.isInitialized = false;
+
+        this.options.channel?.unsubscribe(Array.from(this.subscribedAssetIds));
+        this.eventSubject.complete();
     }
 
     public processMessage(parsed: any): IWsEvent[] {
@@ -218,6 +471,7 @@ export class OrderBookManager {
                     // 订单簿快照
                     const assetId = String(msg.asset_id || '').toLowerCase();
                     if (this.subscribedAssetIds.has(assetId)) {
+                        this.awaitingSnapshot.delete(assetId);
                         const ts = parseInt(msg.timestamp ?? '0', 10) || Date.now();
                         events.push({
                             type: 'book',
@@ -234,22 +488,25 @@ export class OrderBookManager {
                     // 增量更新
                     const changes = (Array.isArray(msg.price_changes) ? msg.price_changes : []).filter((c: any) => {
                         const assetId = String(c.asset_id || '').toLowerCase();
-                        return this.subscribedAssetIds.has(assetId);
+                        return this.subscribedAssetIds.has(assetId) && !this.awaitingSnapshot.has(assetId);
                     });
 
-                    if (changes.length) {
-                        const assetId = String(changes[0].asset_id || '').toLowerCase();
-                        const ts = parseInt(msg.timestamp ?? '0', 10) || Date.now();
+                    // 同一条消息包含两个 outcome 的变化，按资产拆分
+                    const ts = parseInt(msg.timestamp ?? '0', 10) || Date.now();
+                    const assetIds = new Set<string>(changes.map((c: any) => String(c.asset_id || '').toLowerCase()));
+                    for (const assetId of assetIds) {
                         events.push({
                             type: 'price_change',
                             assetId,
                             ts,
                             data: {
-                                price_changes: changes.map((c: any) => ({
-                                    price: c.price,
-                                    size: c.size,
-                                    side: c.side,
-                                })),
+                                price_changes: changes
+                                    .filter((c: any) => String(c.asset_id || '').toLowerCase() === assetId)
+                                    .map((c: any) => ({
+                                        price: c.price,
+                                        size: c.size,
+                                        side: c.side,
+                                    })),
                             },
                         });
                     }
@@ -331,13 +588,11 @@ export class OrderBookManager {
     }
 
     public getOrderBookSnapshotByTokenId(tokenId: string, side: Side) {
-        let priceMap: IPriceMap = null;
-        if (tokenId === this.clobTokenIds[0]) {
-            priceMap = this.priceMaps[tokenId];
-        } else if (tokenId === this.clobTokenIds[1]) {
-            priceMap = this.getInvertedPriceMap(this.clobTokenIds[0]);
+        if (!this.isBookReady()) {
+            throw new Error(`Order book awaiting snapshot for token id: ${tokenId}`);
         }
 
+        const priceMap = this.getPriceMapByTokenId(tokenId);
         if (!priceMap) {
             throw new Error(`Price map not found for token id: ${tokenId}`);
         }
@@ -363,8 +618,12 @@ export class OrderBookManager {
     }
 
     public getCompleteOrderBookSnapshot() {
-        const yesPriceMap: IPriceMap = this.priceMaps[this.clobTokenIds[0]];
-        const noPriceMap: IPriceMap = this.getInvertedPriceMap(this.clobTokenIds[0]);
+        if (!this.isBookReady()) {
+            return null;
+        }
+
+        const yesPriceMap: IPriceMap = this.getPriceMapByTokenId(this.clobTokenIds[0]);
+        const noPriceMap: IPriceMap = this.getPriceMapByTokenId(this.clobTokenIds[1]);
 
         if (!yesPriceMap || !noPriceMap) {
             return null;
@@ -419,6 +678,52 @@ export class OrderBookManager {
         };
     }
 
+    /**
+     * 订阅了该 token 时返回实际订单簿，否则第二个 outcome 由第一个反转得到
+     */
+    private getPriceMapByTokenId(tokenId: string): IPriceMap | null {
+        if (this.subscribedAssetIds.has(tokenId.toLowerCase())) {
+            return this.priceMaps[tokenId.toLowerCase()] ?? null;
+        }
+
+        if (tokenId === this.clobTokenIds[1]) {
+            return this.getInvertedPriceMap(this.clobTokenIds[0]);
+        }
+
+        return null;
+    }
+
+    /**
+     * 当前最优价（第二个 outcome 未订阅时由反转得到），快照未就绪时返回 null
+     * events$ 只在变化时发布 best-price，订阅晚于快照时用它补齐初始价格
+     */
+    public getBestPrices(tokenId: string): IReportedBestPrices | null {
+        if (!this.isBookReady()) {
+            return null;
+        }
+
+        const priceMap = this.getPriceMapByTokenId(tokenId);
+        return priceMap ? BookIntegrityChecker.getBestPrices(priceMap) : null;
+    }
+
+    /**
+     * 对比 YES 反转得到的 NO 订单簿与实际 NO 订单簿，未订阅两个 outcome 或快照未就绪时返回 null
+     */
+    public checkConsistency(sizeTolerance?: number): IBookConsistencyReport | null {
+        const noAssetId = this.clobTokenIds[1].toLowerCase();
+        if (!this.subscribedAssetIds.has(noAssetId) || !this.isBookReady()) {
+            return null;
+        }
+
+        const synthetic = this.getInvertedPriceMap(this.clobTokenIds[0]);
+        const actual = this.priceMaps[noAssetId];
+        if (!synthetic || !actual) {
+            return null;
+        }
+
+        return BookConsistencyChecker.compare(synthetic, actual, sizeTolerance);
+    }
+
     private getInvertedPriceMap(
         yesAssetId: string,
         precision: number = 4
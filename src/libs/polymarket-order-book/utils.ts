@@ -77,4 +77,33 @@ export const calculateBuyMarketPrice = (
         throw new Error("no match");
     }
     return parseFloat(positions[0].price);
-};
\ No newline at end of file
+};
+
+/**
+ * calculateSellMarketPrice calculates the market price to sell an amount of shares
+ * bids 不要求有序，按价格从高到低吃单
+ * @param positions bids
+ * @param amountToMatch shares to sell
+ * @returns
+ */
+export const calculateSellMarketPrice = (
+    positions: OrderSummary[],
+    amountToMatch: number,
+    orderType: OrderType,
+) => {
+    if (!positions.length) {
+        throw new Error("no match");
+    }
+    const sorted = [...positions].sort((a, b) => parseFloat(b.price) - parseFloat(a.price));
+    let sum = 0;
+    for (const p of sorted) {
+        sum += parseFloat(p.size);
+        if (sum >= amountToMatch) {
+            return parseFloat(p.price);
+        }
+    }
+    if (orderType === OrderType.FOK) {
+        throw new Error("no match");
+    }
+    return parseFloat(sorted[sorted.length - 1].price);
+};
@@ -0,0 +1,58 @@
+import * as Fs from 'fs';
+import * as Path from 'path';
+
+/** 录制文件中的一行，message 为 WebSocket 原始消息 */
+export interface RecordedWsMessage {
+    receivedAt: number;     // 本地接收时间 (ms)
+    message: string;
+}
+
+export interface WsMessageRecorderOptions {
+    dir: string;
+    name: string;               // 文件名前缀，如 BTC15MExecutor
+    maxFileBytes?: number;      // 单个文件超过该大小时切换新文件，默认 100MB
+}
+
+/**
+ * WebSocket 原始消息录制，每条消息一行 JSON，按大小滚动写入 {name}-{时间戳}.jsonl
+ * 用于复现订单簿问题，见 WsMessageReplayer
+ */
+export class WsMessageRecorder {
+    private stream: Fs.WriteStream = null;
+    private fileBytes: number = 0;
+
+    private readonly maxFileBytes: number;
+
+    public constructor(private readonly options: WsMessageRecorderOptions) {
+        this.maxFileBytes = options.maxFileBytes ?? 100 * 1024 * 1024;
+    }
+
+    public record(message: string, receivedAt: number = Date.now()) {
+        const line = `${JSON.stringify({ receivedAt, message })}\n`;
+        if (!this.stream || this.fileBytes >= this.maxFileBytes) {
+            this.rotate(receivedAt);
+        }
+
+        this.stream.write(line);
+        this.fileBytes += Buffer.byteLength(line);
+    }
+
+    public async close(): Promise<void> {
+        const stream = this.stream;
+        this.stream = null;
+        if (stream) {
+            await new Promise<void>((resolve) => stream.end(() => resolve()));
+        }
+    }
+
+    private rotate(timestamp: number) {
+        this.stream?.end();
+
+        // 首次写入时才创建目录，未开启录制的命令没有副作用
+        Fs.mkdirSync(this.options.dir, { recursive: true });
+        const file = Path.join(this.options.dir, `${this.options.name}-${timestamp}.jsonl`);
+        this.stream = Fs.createWriteStream(file, { flags: 'a' });
+        this.stream.on('error', (error) => console.error(`[WsMessageRecorder] write ${file} failed: ${error.message}`));
+        this.fileBytes = 0;
+    }
+}
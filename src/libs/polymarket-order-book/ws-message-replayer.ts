@@ -0,0 +1,69 @@
+import * as Fs from 'fs';
+import * as Path from 'path';
+import { RecordedWsMessage } from './ws-message-recorder';
+
+/**
+ * 读取录制文件，path 为目录时按文件名顺序读取其中所有 .jsonl（滚动文件名带时间戳）
+ */
+export function loadWsRecording(path: string): RecordedWsMessage[] {
+    const files = Fs.statSync(path).isDirectory()
+        ? Fs.readdirSync(path).filter((file) => file.endsWith('.jsonl')).sort().map((file) => Path.join(path, file))
+        : [path];
+
+    return files.flatMap((file) => Fs.readFileSync(file, 'utf-8')
+        .split('\n')
+        .filter((line) => line.trim().length > 0)
+        .map((line) => JSON.parse(line) as RecordedWsMessage));
+}
+
+export interface WsMessageReplayerOptions {
+    speed?: number;     // 回放倍速，1 为实时，0 表示不等待、尽快回放，默认 1
+}
+
+/**
+ * 按录制时的接收间隔回放 WebSocket 消息
+ */
+export class WsMessageReplayer {
+    private isStopped: boolean = false;
+
+    private readonly speed: number;
+
+    public constructor(private readonly messages: RecordedWsMessage[], options: WsMessageReplayerOptions = {}) {
+        this.speed = options.speed ?? 1;
+    }
+
+    public getMessageCount(): number {
+        return this.messages.length;
+    }
+
+    /**
+     * 依次回调每条消息，全部回放或 stop() 后返回已回放的条数
+     */
+    public async replay(onMessage: (message: string, receivedAt: number) => void): Promise<number> {
+        this.isStopped = false;
+
+        let replayed = 0;
+        for (let i = 0; i < this.messages.length && !this.isStopped; i++) {
+            const { receivedAt, message } = this.messages[i];
+            if (this.speed > 0 && i > 0) {
+                const delayMs = (receivedAt - this.messages[i - 1].receivedAt) / this.speed;
+                if (delayMs > 0) {
+                    await new Promise((resolve) => setTimeout(resolve, delayMs));
+                }
+            }
+
+            if (this.isStopped) {
+                break;
+            }
+
+            onMessage(message, receivedAt);
+            replayed++;
+        }
+
+        return replayed;
+    }
+
+    public stop() {
+        this.isStopped = true;
+    }
+}
@@ -10,8 +10,57 @@ export enum ConnectionState {
     CLOSED = 'CLOSED', // 主动关闭，不再重连
 }
 
+/**
+ * 创建底层 ws 客户端，测试中可替换为连接本地 mock 服务
+ */
+export type WebSocketTransport = (url: string) => WebSocket;
+
+/**
+ * 默认 transport：设置 WS_URL_OVERRIDE 时所有连接指向该地址（原 url 放在 target 参数中），
+ * 否则直连，开发环境走本地代理
+ */
+export const defaultWebSocketTransport: WebSocketTransport = (url: string) => {
+    if (process.env.WS_URL_OVERRIDE) {
+        return createUrlOverrideTransport(process.env.WS_URL_OVERRIDE)(url);
+    }
+
+    let agent: HttpsProxyAgent<string> | undefined;
+    if (IS_DEVELOPMENT) {
+        const proxy = "http://127.0.0.1:7890";
+        agent = new HttpsProxyAgent(proxy);
+    }
+
+    return new WebSocket(url, { agent });
+};
+
+/**
+ * 所有连接指向 baseUrl，原 url 放在 target 参数中，mock 服务据此区分数据源
+ */
+export function createUrlOverrideTransport(baseUrl: string): WebSocketTransport {
+    return (url: string) => {
+        const target = new URL(baseUrl);
+        target.searchParams.set('target', url);
+        return new WebSocket(target.toString());
+    };
+}
+
+let globalWebSocketTransport: WebSocketTransport = defaultWebSocketTransport;
+
+/**
+ * 替换全局 transport，对之后创建的所有未单独指定 transport 的连接生效，传 null 恢复默认
+ */
+export function setWebSocketTransport(transport: WebSocketTransport | null) {
+    globalWebSocketTransport = transport ?? defaultWebSocketTransport;
+}
+
+export function getWebSocketTransport(): WebSocketTransport {
+    return globalWebSocketTransport;
+}
+
 export interface WebSocketConnectionOptions {
     url: string;
+    /** 创建 ws 客户端，默认使用全局 transport（见 setWebSocketTransport） */
+    transport?: WebSocketTransport;
     onOpen?: () => void;
     onMessage?: (message: string) => void;
     onClose?: (code: number, reason: string) => void;
@@ -30,6 +79,7 @@ export interface WebSocketConnectionOptions {
 
 export class WebSocketConnection {
     private url: string;
+    private transport?: WebSocketTransport;
     private wsClient: WebSocket | null = null;
     private state: ConnectionState = ConnectionState.DISCONNECTED;
 
@@ -54,6 +104,7 @@ export class WebSocketConnection {
 
     constructor(options: WebSocketConnectionOptions) {
         this.url = options.url;
+        this.transport = options.transport;
         this.onOpen = options.onOpen;
         this.onMessage = options.onMessage;
         this.onClose = options.onClose;
@@ -112,13 +163,7 @@ export class WebSocketConnection {
         // 清理旧连接
         this.cleanupWebSocket();
 
-        let agent: HttpsProxyAgent<string> | undefined;
-        if (IS_DEVELOPMENT) {
-            const proxy = "http://127.0.0.1:7890";
-            agent = new HttpsProxyAgent(proxy);
-        }
-
-        this.wsClient = new WebSocket(this.url, { agent });
+        this.wsClient = (this.transport ?? getWebSocketTransport())(this.url);
 
         this.wsClient.on('open', this.handleOpen.bind(this));
         this.wsClient.on('message', this.handleMessage.bind(this));
@@ -34,10 +34,18 @@ export class PolymarketApiService {
         return await this.requestGet(`${GAMMA_API_BASE}/markets/slug/${slug}`);
     }
 
+    public async getEventBySlug(slug: string) {
+        return await this.requestGet(`${GAMMA_API_BASE}/events/slug/${slug}`);
+    }
+
     public async getTickSize(tokenId: string) {
         return await this.requestGet(`${CLOB_API_BASE}/tick-size`, { token_id: tokenId });
     }
 
+    public async getOrderBook(tokenId: string) {
+        return await this.requestGet(`${CLOB_API_BASE}/book`, { token_id: tokenId }, 1);
+    }
+
     public async getFeeRate(tokenId: string) {
         return await this.requestGet(`${CLOB_API_BASE}/fee-rate`, { token_id: tokenId });
     }
@@ -0,0 +1,147 @@
+import '../helpers/mock-clob-client';
+import * as Fs from 'fs';
+import * as Os from 'os';
+import * as Path from 'path';
+import { resolveCycleOutcome, runBacktest } from '../../src/backtest/backtest-runner';
+import { buildBacktestEvents, loadBacktestCycles } from '../../src/backtest/cycle-loader';
+import { IBacktestCycle } from '../../src/backtest/interfaces';
+import { StrategyType } from '../../src/bots/strategys/base.strategy';
+import { ExitReason } from '../../src/bots/strategys/exit-rules';
+
+const START = 1769385600; // 周期开始 (秒)
+const START_MS = START * 1000;
+
+// 文件中的数组都是新 -> 旧
+function buildCycle(closePrice: number): IBacktestCycle {
+    return {
+        slug: `btc-updown-15m-${START}`,
+        asset: 'btc',
+        interval: '15m',
+        startTimestamp: START,
+        priceRecords: [
+            { timestamp: START_MS + 75_000, Up: 0.7, Down: 0.3 },
+        ],
+        btcPrices: [
+            { timestamp: START_MS + 899_000, price: closePrice },
+            { timestamp: START_MS, price: 100_000 },
+        ],
+        btcAggregatedPrices: [
+            { timestamp: START_MS + 80_000, price: 100_005 },
+            { timestamp: START_MS + 70_000, price: 100_035 },
+            { timestamp: START_MS, price: 100_000 },
+        ],
+        aggregatedModePrices: [],
+    };
+}
+
+describe('Backtest', () => {
+    let log: typeof console.log;
+
+    beforeAll(() => {
+        log = console.log;
+        console.log = () => {};
+    });
+
+    afterAll(() => {
+        console.log = log;
+    });
+
+    it('事件按时间升序回放', () => {
+        const events = buildBacktestEvents(buildCycle(99_990));
+        const timestamps = events.map((e) => e.timestamp);
+        expect(timestamps).toEqual([...timestamps].sort((a, b) => a - b));
+        expect(events[0].type).toBe('btc-price');
+    });
+
+    it('按 Chainlink 收盘价判断结果', () => {
+        expect(resolveCycleOutcome(buildCycle(99_990))).toBe('Down');
+        expect(resolveCycleOutcome(buildCycle(100_000))).toBe('Up');
+    });
+
+    it('5m 周期按 5 分钟结束时的 Chainlink 价格判断结果', () => {
+        const cycle: IBacktestCycle = {
+            ...buildCycle(100_010),
+            slug: `btc-updown-5m-${START}`,
+            interval: '5m',
+            btcPrices: [
+                { timestamp: START_MS + 899_000, price: 100_010 },
+                { timestamp: START_MS + 299_000, price: 99_990 },
+                { timestamp: START_MS, price: 100_000 },
+            ],
+        };
+        expect(resolveCycleOutcome(cycle)).toBe('Down');
+    });
+
+    it('按文件名识别资产和周期，跳过不支持的资产', () => {
+        const dir = Fs.mkdtempSync(Path.join(Os.tmpdir(), 'backtest-cycles-'));
+        try {
+            for (const slug of [`eth-updown-5m-${START + 300}`, `btc-updown-15m-${START}`, `doge-updown-15m-${START}`]) {
+                Fs.writeFileSync(Path.join(dir, `${slug}-price-records.json`), '[]');
+                Fs.writeFileSync(Path.join(dir, `${slug}-btc-prices.json`), '[]');
+            }
+
+            const cycles = loadBacktestCycles(dir).map(({ slug, asset, interval, startTimestamp }) => ({ slug, asset, interval, startTimestamp }));
+            expect(cycles).toEqual([
+                { slug: `btc-updown-15m-${START}`, asset: 'btc', interval: '15m', startTimestamp: START },
+                { slug: `eth-updown-5m-${START + 300}`, asset: 'eth', interval: '5m', startTimestamp: START + 300 },
+            ]);
+        } finally {
+            Fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('真实策略触发并按结果结算', () => {
+        const reports = runBacktest([buildCycle(99_990)]);
+        const s36 = reports.find((r) => r.type === StrategyType.S36_MEAN_REVERSION_EXTENDED);
+
+        expect(s36).toBeDefined();
+        expect(s36.trades).toHaveLength(1);
+        expect(s36.trades[0].outcome).toBe('Down');
+        expect(s36.trades[0].price).toBe(0.3);
+        expect(s36.winRate).toBe(1);
+        expect(s36.pnl).toBeCloseTo(1 / 0.3 - 1);
+        expect(s36.roi).toBeCloseTo(1 / 0.3 - 1);
+    });
+
+    it('方向错误时亏损全部本金', () => {
+        const reports = runBacktest([buildCycle(100_010)]);
+        const s36 = reports.find((r) => r.type === StrategyType.S36_MEAN_REVERSION_EXTENDED);
+
+        expect(s36.wins).toBe(0);
+        expect(s36.pnl).toBeCloseTo(-1);
+    });
+
+    it('持仓期间按 exitPolicy 提前卖出，卖出所得计入 PnL', () => {
+        // S37: 聚合价格偏移 $35 后回落到 $5，70 秒时买 Down @ 0.4；75 秒时 Down 的 bid (1 - Up ask) 为 0.52，达到止盈线 0.5
+        const cycle: IBacktestCycle = {
+            slug: `btc-updown-15m-${START}`,
+            asset: 'btc',
+            interval: '15m',
+            startTimestamp: START,
+            priceRecords: [
+                { timestamp: START_MS + 75_000, Up: 0.48, Down: 0.55 },
+                { timestamp: START_MS + 65_000, Up: 0.62, Down: 0.4 },
+            ],
+            btcPrices: [
+                { timestamp: START_MS + 899_000, price: 100_010 },
+                { timestamp: START_MS, price: 100_000 },
+            ],
+            btcAggregatedPrices: [
+                { timestamp: START_MS + 70_000, price: 100_005 },
+                { timestamp: START_MS + 61_000, price: 100_035 },
+                { timestamp: START_MS, price: 100_000 },
+            ],
+            aggregatedModePrices: [],
+        };
+
+        const s37 = runBacktest([cycle]).find((r) => r.type === StrategyType.S37_MEAN_REVERSION_TAKE_PROFIT);
+
+        expect(s37.trades).toHaveLength(1);
+        expect(s37.trades[0]).toMatchObject({ outcome: 'Down', price: 0.4, won: false });
+        expect(s37.trades[0].exit).toMatchObject({ reason: ExitReason.TAKE_PROFIT, price: 0.52, shares: 2.5 });
+        expect(s37.exits).toBe(1);
+        expect(s37.exitPnl).toBeCloseTo(0.3);
+        // 周期结果为 Up，全部份额已卖出，不按结算亏损
+        expect(s37.pnl).toBeCloseTo(0.3);
+    });
+});
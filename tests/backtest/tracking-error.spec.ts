@@ -0,0 +1,24 @@
+import { compareAggregationModes } from '../../src/backtest/tracking-error';
+import { IBacktestCycle } from '../../src/backtest/interfaces';
+
+const START_MS = 1769385600000;
+
+describe('compareAggregationModes', () => {
+    it('按聚合方式汇总所有周期', () => {
+        const cycle: IBacktestCycle = {
+            slug: 'btc-updown-15m-1769385600',
+            asset: 'btc',
+            interval: '15m',
+            startTimestamp: START_MS / 1000,
+            priceRecords: [],
+            btcPrices: [{ timestamp: START_MS + 1000, price: 100 }],
+            btcAggregatedPrices: [],
+            aggregatedModePrices: [{ timestamp: START_MS, modePrices: { median: 102, vwap: 99, hybrid: null } }],
+        };
+
+        const result = compareAggregationModes([cycle]);
+        expect(result.median).toMatchObject({ samples: 1, bias: 2, rmse: 2 });
+        expect(result.vwap).toMatchObject({ samples: 1, bias: -1, rmse: 1 });
+        expect(result.hybrid.samples).toBe(0);
+    });
+});
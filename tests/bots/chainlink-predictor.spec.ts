@@ -0,0 +1,73 @@
+import { ChainlinkPredictor } from '../../src/bots/chainlink-predictor';
+import { ChainlinkTrackingStats } from '../../src/bots/chainlink-tracking-monitor';
+
+const START_MS = 1769385600000;
+const BASE_PRICE = 100_000;
+const SETTLEMENT_MS = START_MS + 15 * 60 * 1000;
+
+// Chainlink 每秒推送一次，价格在 ±$2 之间来回，每秒波动 $2
+function feedChainlink(predictor: ChainlinkPredictor, seconds: number) {
+    for (let i = 0; i <= seconds; i++) {
+        predictor.addChainlinkPrice({ timestamp: START_MS + i * 1000, price: BASE_PRICE + (i % 2 === 0 ? 1 : -1) });
+    }
+}
+
+const tracking = (overrides: Partial<ChainlinkTrackingStats> = {}): ChainlinkTrackingStats => ({
+    samples: 100,
+    bias: 0,
+    meanAbsError: 0,
+    rmse: 0,
+    leadMs: 0,
+    leadBias: 0,
+    leadRmse: 0,
+    ...overrides,
+});
+
+describe('ChainlinkPredictor', () => {
+    it('波动率样本不足时不预测', () => {
+        const predictor = new ChainlinkPredictor();
+        feedChainlink(predictor, 5);
+
+        expect(predictor.getVolatility()).toBeNull();
+        expect(predictor.predict(START_MS + 5000, BASE_PRICE, SETTLEMENT_MS, null)).toBeNull();
+    });
+
+    it('按相邻推送的价格变化估计每秒波动率', () => {
+        const predictor = new ChainlinkPredictor();
+        feedChainlink(predictor, 60);
+
+        expect(predictor.getVolatility()).toBeCloseTo(2);
+    });
+
+    it('按领先时间取聚合价格并扣除偏差预测下一次 Chainlink 价格', () => {
+        const predictor = new ChainlinkPredictor();
+        feedChainlink(predictor, 60);
+        // 60s 时 Chainlink 为 BASE + 1，聚合价格已经涨到 BASE + 31（含 $1 偏差）
+        predictor.addAggregatedPrice({ timestamp: START_MS + 59_500, price: BASE_PRICE + 21 });
+        predictor.addAggregatedPrice({ timestamp: START_MS + 60_000, price: BASE_PRICE + 31 });
+
+        const now = START_MS + 60_000;
+        const prediction = predictor.predict(now, BASE_PRICE, SETTLEMENT_MS, tracking({ leadMs: 1000, leadBias: 1, leadRmse: 3 }));
+        expect(prediction.nextTimestamp).toBe(START_MS + 61_000);
+        expect(prediction.nextPrice).toBe(BASE_PRICE + 30);
+
+        // 剩余 839s，标准差 = sqrt(2² × 839 + 3²)
+        const stdDev = Math.sqrt(4 * 839 + 9);
+        expect(prediction.settlementStdDev).toBeCloseTo(stdDev);
+        expect(prediction.upProbability).toBeGreaterThan(0.5);
+
+        // 价格远低于基准，Up 概率接近 0
+        const farBelow = predictor.predict(now, BASE_PRICE + 1000, SETTLEMENT_MS, tracking({ leadMs: 1000, leadBias: 1, leadRmse: 3 }));
+        expect(farBelow.upProbability).toBeLessThan(0.001);
+    });
+
+    it('没有跟踪统计时使用最新 Chainlink 价格', () => {
+        const predictor = new ChainlinkPredictor();
+        feedChainlink(predictor, 60);
+        predictor.addAggregatedPrice({ timestamp: START_MS + 60_000, price: BASE_PRICE + 31 });
+
+        const prediction = predictor.predict(START_MS + 60_000, BASE_PRICE + 1, SETTLEMENT_MS, null);
+        expect(prediction.nextPrice).toBe(BASE_PRICE + 1);
+        expect(prediction.upProbability).toBeCloseTo(0.5);
+    });
+});
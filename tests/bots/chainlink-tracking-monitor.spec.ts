@@ -0,0 +1,56 @@
+import { ChainlinkTrackingMonitor } from '../../src/bots/chainlink-tracking-monitor';
+
+const START_MS = 1769385600000;
+const BASE_PRICE = 100_000;
+
+// 每秒上涨 $1
+const priceAt = (timestamp: number) => BASE_PRICE + (timestamp - START_MS) / 1000;
+
+describe('ChainlinkTrackingMonitor', () => {
+    it('聚合价格领先 Chainlink 2 秒', () => {
+        const monitor = new ChainlinkTrackingMonitor();
+        for (let t = START_MS; t <= START_MS + 62_000; t += 250) {
+            monitor.addAggregatedPrice({ timestamp: t, price: priceAt(t) });
+            if ((t - START_MS) % 1000 === 0 && t >= START_MS + 2000) {
+                // Chainlink 晚 2 秒反映同样的价格
+                monitor.addChainlinkPrice({ timestamp: t, price: priceAt(t - 2000) });
+            }
+        }
+
+        // 滚动统计每 5 秒更新一次：2s, 7s, ..., 62s
+        const stats = monitor.getLatestStats();
+        expect(stats.samples).toBe(61);
+        expect(stats.bias).toBeCloseTo(2);
+        expect(stats.rmse).toBeCloseTo(2);
+        expect(stats.leadMs).toBe(2000);
+        expect(stats.leadBias).toBeCloseTo(0);
+        expect(stats.leadRmse).toBeCloseTo(0);
+    });
+
+    it('按起始时间统计周期，之前没有聚合价格的点不计入', () => {
+        const monitor = new ChainlinkTrackingMonitor();
+        monitor.addChainlinkPrice({ timestamp: START_MS, price: BASE_PRICE });
+        expect(monitor.getLatestStats()).toBeNull();
+
+        monitor.addAggregatedPrice({ timestamp: START_MS + 500, price: BASE_PRICE + 3 });
+        monitor.addChainlinkPrice({ timestamp: START_MS + 1000, price: BASE_PRICE + 1 });
+        monitor.addChainlinkPrice({ timestamp: START_MS + 2000, price: BASE_PRICE + 5 });
+
+        expect(monitor.getStats(START_MS)).toMatchObject({ samples: 2, bias: 0, meanAbsError: 2, rmse: 2 });
+        expect(monitor.getStats(START_MS + 1500)).toMatchObject({ samples: 1, bias: -2 });
+    });
+
+    it('滚动统计按 statsIntervalMs 节流', () => {
+        const monitor = new ChainlinkTrackingMonitor({ statsIntervalMs: 5000 });
+        monitor.addAggregatedPrice({ timestamp: START_MS, price: BASE_PRICE + 1 });
+        monitor.addChainlinkPrice({ timestamp: START_MS + 1000, price: BASE_PRICE });
+        expect(monitor.getLatestStats()).toMatchObject({ samples: 1, bias: 1 });
+
+        monitor.addAggregatedPrice({ timestamp: START_MS + 1500, price: BASE_PRICE + 5 });
+        monitor.addChainlinkPrice({ timestamp: START_MS + 2000, price: BASE_PRICE });
+        expect(monitor.getLatestStats()).toMatchObject({ samples: 1, bias: 1 });
+
+        monitor.addChainlinkPrice({ timestamp: START_MS + 6000, price: BASE_PRICE });
+        expect(monitor.getLatestStats()).toMatchObject({ samples: 3, bias: 11 / 3 });
+    });
+});
@@ -0,0 +1,113 @@
+import * as Fs from 'fs';
+import * as Os from 'os';
+import * as Path from 'path';
+import { buildLeaderboard, CycleSettler, PendingSettlement, resolveWinnerFromMarket, settleBid } from '../../src/bots/cycle-settlement';
+import { ExitReason } from '../../src/bots/strategys/exit-rules';
+import { PolymarketApiService } from '../../src/services/polymarket-api.service';
+
+const START_MS = 1769385600000;
+const END_MS = START_MS + 15 * 60 * 1000;
+const SLUG = `btc-updown-15m-${START_MS / 1000}`;
+
+function pending(): PendingSettlement {
+    return {
+        slug: SLUG,
+        outcomes: ['Up', 'Down'],
+        endTimestamp: END_MS,
+        priceToBeat: 100000,
+        bidResults: [{ type: 'S37_MEAN_REVERSION_TAKE_PROFIT', outcome: 'Up', price: 0.4, shares: 2.5, timestamp: '' }],
+        simulatedBidResults: [
+            { type: 'S37_MEAN_REVERSION_TAKE_PROFIT', outcome: 'Up', price: 0.4, shares: 2.5, timestamp: '' },
+            { type: 'S34_INVERT_AGGREGATED', outcome: 'Down', price: 0.5, shares: 2, timestamp: '' },
+        ],
+    };
+}
+
+describe('cycle-settlement', () => {
+    it('resolveWinnerFromMarket: 市场关闭后取价格为 1 的 outcome', () => {
+        const market: any = { closed: false, outcomes: '["Up", "Down"]', outcomePrices: '["0.99", "0.01"]' };
+        expect(resolveWinnerFromMarket(market)).toBeNull();
+        expect(resolveWinnerFromMarket({ ...market, closed: true, outcomePrices: '["0", "1"]' })).toBe('Down');
+    });
+
+    it('settleBid: 提前卖出的份额按卖出价，其余份额按结算赔付', () => {
+        const exit = { reason: ExitReason.TAKE_PROFIT, price: 0.6, shares: 1, timestamp: '', pnl: 0.2 };
+        const bid = settleBid({ type: 'S37', outcome: 'Up', price: 0.4, shares: 2.5, timestamp: '', exit }, 'Up', false);
+        expect(bid.won).toBe(true);
+        expect(bid.cost).toBeCloseTo(1);
+        expect(bid.payout).toBeCloseTo(0.6 + 1.5);
+        expect(bid.pnl).toBeCloseTo(1.1);
+
+        expect(settleBid({ type: 'S37', outcome: 'Up', price: 0.4, shares: 2.5, timestamp: '' }, 'Down', true).pnl).toBeCloseTo(-1);
+    });
+
+    describe('CycleSettler', () => {
+        let bidResultsDir: string;
+
+        beforeEach(() => {
+            // 目录由 CycleSettler 创建
+            bidResultsDir = Path.join(Fs.mkdtempSync(Path.join(Os.tmpdir(), 'cycle-settlement-')), 'bid-results');
+            jest.spyOn(console, 'log').mockImplementation(() => {});
+            jest.spyOn(console, 'error').mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+            Fs.rmSync(Path.dirname(bidResultsDir), { recursive: true, force: true });
+        });
+
+        it('Gamma 结算后写入结算记录并汇总策略盈亏', async () => {
+            const polymarketApiService = {
+                getMarketBySlug: jest.fn().mockResolvedValue({ closed: true, outcomes: '["Up", "Down"]', outcomePrices: '["1", "0"]' }),
+            } as unknown as PolymarketApiService;
+            const settler = new CycleSettler(polymarketApiService, { name: 'Test', retryIntervalMs: 0, bidResultsDir });
+
+            settler.enqueue(pending());
+            await settler.settlePending();
+
+            expect(settler.getPendingCount()).toBe(0);
+            const record = JSON.parse(Fs.readFileSync(Path.join(bidResultsDir, `${SLUG}-settlement.json`), 'utf-8'));
+            expect(record).toMatchObject({ winner: 'Up', source: 'GAMMA' });
+            expect(buildLeaderboard([record])).toEqual([
+                { type: 'S37_MEAN_REVERSION_TAKE_PROFIT', live: { bids: 1, wins: 1, cost: 1, pnl: 1.5 }, simulated: { bids: 1, wins: 1, cost: 1, pnl: 1.5 } },
+                { type: 'S34_INVERT_AGGREGATED', live: { bids: 0, wins: 0, cost: 0, pnl: 0 }, simulated: { bids: 1, wins: 0, cost: 1, pnl: -1 } },
+            ]);
+        });
+
+        it('结算记录写入失败时只记录日志，不抛出', async () => {
+            const polymarketApiService = {
+                getMarketBySlug: jest.fn().mockResolvedValue({ closed: true, outcomes: '["Up", "Down"]', outcomePrices: '["1", "0"]' }),
+            } as unknown as PolymarketApiService;
+            // 目录路径被普通文件占用，mkdir 失败
+            Fs.writeFileSync(bidResultsDir, '');
+            const settler = new CycleSettler(polymarketApiService, { name: 'Test', retryIntervalMs: 0, bidResultsDir });
+
+            settler.enqueue(pending());
+            await expect(settler.settlePending()).resolves.toBeUndefined();
+            expect(settler.getPendingCount()).toBe(0);
+            expect(console.error).toHaveBeenCalledWith(expect.stringContaining(`save settlement ${SLUG} failed`));
+        });
+
+        it('Gamma 超时未结算时按周期结束时刻的 Chainlink 价格判定', async () => {
+            const polymarketApiService = {
+                getMarketBySlug: jest.fn().mockResolvedValue({ closed: false, outcomes: '["Up", "Down"]', outcomePrices: '["0.5", "0.5"]' }),
+            } as unknown as PolymarketApiService;
+            const settler = new CycleSettler(polymarketApiService, { name: 'Test', retryIntervalMs: 0, gammaTimeoutMs: 60 * 1000, bidResultsDir });
+            settler.enqueue(pending());
+            settler.addChainlinkPrice({ timestamp: END_MS - 1000, price: 100010 });
+            settler.addChainlinkPrice({ timestamp: END_MS, price: 99990 });
+            settler.addChainlinkPrice({ timestamp: END_MS + 1000, price: 100020 });
+
+            jest.spyOn(Date, 'now').mockReturnValue(END_MS + 30 * 1000);
+            await settler.settlePending();
+            expect(settler.getPendingCount()).toBe(1);
+
+            jest.spyOn(Date, 'now').mockReturnValue(END_MS + 61 * 1000);
+            await settler.settlePending();
+            expect(settler.getPendingCount()).toBe(0);
+
+            const record = JSON.parse(Fs.readFileSync(Path.join(bidResultsDir, `${SLUG}-settlement.json`), 'utf-8'));
+            expect(record).toMatchObject({ winner: 'Down', source: 'CHAINLINK', priceToBeat: 100000, closePrice: 99990 });
+        });
+    });
+});
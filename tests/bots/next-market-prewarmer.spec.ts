@@ -0,0 +1,80 @@
+import '../helpers/mock-clob-client';
+import { NextMarketPrewarmer } from '../../src/bots/next-market-prewarmer';
+import { PolymarketTrader } from '../../src/bots/polymarket-trader';
+import { MultiMarketOrderBookManager } from '../../src/libs/polymarket-order-book/multi-market-order-book-manager';
+import { PolymarketApiService } from '../../src/services/polymarket-api.service';
+import { MockWebSocketServer } from '../helpers/mock-websocket-server';
+import { createBook, createMarket, CYCLE_START } from '../helpers/order-book-fixtures';
+
+const NEXT_START = CYCLE_START + 900;
+const NEXT_SLUG = `btc-updown-15m-${NEXT_START}`;
+
+const market = createMarket(NEXT_START, ['3', '4']);
+
+describe('NextMarketPrewarmer', () => {
+    let server: MockWebSocketServer;
+    let hub: MultiMarketOrderBookManager;
+    let getMarketBySlug: jest.Mock;
+    let initialize: jest.Mock;
+    let prewarmer: NextMarketPrewarmer;
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        server = await MockWebSocketServer.start();
+        hub = new MultiMarketOrderBookManager({ transport: server.transport, reconnectBaseDelayMs: 10 });
+        getMarketBySlug = jest.fn().mockResolvedValue(market);
+        initialize = jest.fn().mockResolvedValue(undefined);
+        prewarmer = new NextMarketPrewarmer(
+            { getMarketBySlug } as unknown as PolymarketApiService,
+            { initialize } as unknown as PolymarketTrader,
+            hub,
+            { name: 'Test', leadTimeMs: 30 * 1000, retryIntervalMs: 0, orderBookOptions: { subscribeBothOutcomes: true } },
+        );
+    });
+
+    afterEach(async () => {
+        hub.destroy();
+        await server.stop();
+        jest.restoreAllMocks();
+    });
+
+    it('周期开始前 leadTimeMs 内预热市场和订单簿，切换时取出已有快照的订单簿', async () => {
+        expect(await prewarmer.prewarm(NEXT_SLUG, Date.now() + 60 * 1000)).toBeNull();
+        expect(getMarketBySlug).not.toHaveBeenCalled();
+
+        const prewarmed = await prewarmer.prewarm(NEXT_SLUG, Date.now() + 20 * 1000);
+        expect(prewarmed.market).toBe(market);
+        expect(initialize).toHaveBeenCalledWith(market);
+        expect(hub.getMarket(NEXT_SLUG)).toBe(prewarmed.orderBookManager);
+
+        // 已预热的 slug 不重复查询
+        await prewarmer.prewarm(NEXT_SLUG, Date.now() + 10 * 1000);
+        expect(getMarketBySlug).toHaveBeenCalledTimes(1);
+
+        const client = await server.waitForClient();
+        await server.waitForMessages(client, 1);
+        expect(JSON.parse(client.received[0])).toEqual({ assets_ids: ['3', '4'], type: 'market' });
+        server.send(client, [createBook('3'), createBook('4')]);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const taken = prewarmer.take(NEXT_SLUG);
+        expect(taken).toBe(prewarmed);
+        expect(taken.orderBookManager.isBookReady()).toBe(true);
+        expect(prewarmer.getPrewarmed()).toBeNull();
+    });
+
+    it('市场未创建时重试，slug 不一致时取消预热的订阅', async () => {
+        getMarketBySlug.mockResolvedValueOnce(null);
+        expect(await prewarmer.prewarm(NEXT_SLUG, Date.now())).toBeNull();
+        expect(await prewarmer.prewarm(NEXT_SLUG, Date.now())).not.toBeNull();
+
+        const client = await server.waitForClient();
+        await server.waitForMessages(client, 1);
+
+        expect(prewarmer.take('btc-updown-15m-1769387400')).toBeNull();
+        expect(hub.getMarketSlugs()).toEqual([]);
+        await server.waitForMessages(client, 2);
+        expect(JSON.parse(client.received[1])).toEqual({ assets_ids: ['3', '4'], operation: 'unsubscribe' });
+    });
+});
@@ -0,0 +1,169 @@
+import '../helpers/mock-clob-client';
+import { OrderType, Side } from '@polymarket/clob-client';
+import { PolymarketTrader } from '../../src/bots/polymarket-trader';
+import { PositionManager } from '../../src/bots/position-manager';
+import { S37MeanReversionTakeProfitParams, S37MeanReversionTakeProfitStrategy } from '../../src/bots/strategys/s37-mean-reversion-take-profit.strategy';
+import { createMarketContext, SyntheticMarketContext } from '../helpers/market-context';
+import { CYCLE_START_MS } from '../helpers/order-book-fixtures';
+
+describe('PositionManager', () => {
+    let context: SyntheticMarketContext;
+    let strategy: S37MeanReversionTakeProfitStrategy;
+    let trader: { buildMarketOrder: jest.Mock; postOrder: jest.Mock };
+    let manager: PositionManager;
+    let log: typeof console.log;
+
+    beforeAll(() => {
+        log = console.log;
+        console.log = () => {};
+    });
+
+    afterAll(() => {
+        console.log = log;
+    });
+
+    beforeEach(() => {
+        context = createMarketContext();
+        strategy = new S37MeanReversionTakeProfitStrategy(context, { params: new S37MeanReversionTakeProfitParams(), canBid: true, stake: 1 });
+        trader = {
+            buildMarketOrder: jest.fn().mockResolvedValue({}),
+            postOrder: jest.fn().mockResolvedValue({ makingAmount: '2', takingAmount: '1.2' }),
+        };
+        manager = new PositionManager(context, trader as unknown as PolymarketTrader);
+
+        // 触发 S37 买 Down
+        context.pushAggregated(0, 0);
+        context.pushAggregated(61, 35);
+        strategy.checkSignal();
+        context.pushAggregated(70, 5);
+        strategy.checkSignal();
+    });
+
+    it('模拟持仓: best bid 达到止盈线按 bids 成交并记录 PNL', () => {
+        const record: { price: number; shares: number; exit?: any } = { price: 0.4, shares: 2 };
+        manager.open({ strategy, outcomeIndex: 1, tokenId: 'down', shares: 2, entryPrice: 0.4, simulated: true, record });
+
+        context.orderBook[Side.SELL] = [{ price: '0.45', size: '10' }];
+        manager.checkExits();
+        expect(record.exit).toBeUndefined();
+
+        context.orderBook[Side.SELL] = [{ price: '0.45', size: '10' }, { price: '0.5', size: '1' }];
+        manager.checkExits();
+        expect(record.exit.reason).toBe('TAKE_PROFIT');
+        expect(record.exit.price).toBe(0.45);
+        expect(record.exit.pnl).toBeCloseTo(0.1);
+        expect(manager.getPositions()[0].status).toBe('CLOSED');
+    });
+
+    it('实盘持仓: 止损触发时提交 SELL FAK', async () => {
+        const record: { price: number; shares: number; exit?: any } = { price: 0.4, shares: 2 };
+        manager.open({ strategy, outcomeIndex: 1, tokenId: 'down', shares: 2, entryPrice: 0.4, simulated: false, record });
+
+        context.pushAggregated(80, 6);
+        manager.checkExits();
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(trader.buildMarketOrder).toHaveBeenCalledWith('down', 0.01, 2, Side.SELL);
+        expect(trader.postOrder).toHaveBeenCalledWith({}, OrderType.FAK);
+        expect(record.exit.reason).toBe('STOP_LOSS');
+        expect(record.exit.price).toBeCloseTo(0.6);
+        expect(record.exit.pnl).toBeCloseTo(0.4);
+        expect(manager.getPositions()[0].status).toBe('CLOSED');
+    });
+
+    it('实盘卖单失败后间隔重试，连续失败达到上限后放弃平仓', async () => {
+        jest.useFakeTimers({ now: CYCLE_START_MS, doNotFake: ['setImmediate'] });
+        const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+        trader.postOrder.mockResolvedValue({ error: 'not enough liquidity' });
+
+        try {
+            const record: { price: number; shares: number; exit?: any } = { price: 0.4, shares: 2 };
+            manager.open({ strategy, outcomeIndex: 1, tokenId: 'down', shares: 2, entryPrice: 0.4, simulated: false, record });
+            context.pushAggregated(80, 6);
+
+            manager.checkExits();
+            await new Promise(resolve => setImmediate(resolve));
+            expect(manager.getPositions()[0].status).toBe('OPEN');
+
+            // 重试间隔内不再提交
+            manager.checkExits();
+            await new Promise(resolve => setImmediate(resolve));
+            expect(trader.postOrder).toHaveBeenCalledTimes(1);
+
+            for (let i = 0; i < 6; i++) {
+                jest.advanceTimersByTime(5 * 1000);
+                manager.checkExits();
+                await new Promise(resolve => setImmediate(resolve));
+            }
+
+            expect(trader.postOrder).toHaveBeenCalledTimes(5);
+            expect(manager.getPositions()[0].status).toBe('EXIT_FAILED');
+            expect(record.exit).toBeUndefined();
+            expect(error.mock.calls.filter(([message]) => message.includes('Give up selling'))).toHaveLength(1);
+        } finally {
+            jest.useRealTimers();
+            error.mockRestore();
+        }
+    });
+
+    it('实盘卖单没有成交时按失败处理，不记录 exit', async () => {
+        const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+        trader.postOrder.mockResolvedValue({ makingAmount: '0', takingAmount: '0' });
+
+        try {
+            const record: { price: number; shares: number; exit?: any } = { price: 0.4, shares: 2 };
+            manager.open({ strategy, outcomeIndex: 1, tokenId: 'down', shares: 2, entryPrice: 0.4, simulated: false, record });
+            context.pushAggregated(80, 6);
+
+            manager.checkExits();
+            await new Promise(resolve => setImmediate(resolve));
+
+            const [position] = manager.getPositions();
+            expect(record.exit).toBeUndefined();
+            expect(position.status).toBe('OPEN');
+            expect(position.shares).toBe(2);
+            expect(position.sellFailures).toBe(1);
+        } finally {
+            error.mockRestore();
+        }
+    });
+
+    it('实盘卖单部分成交后清零失败次数，剩余份额立即继续卖出', async () => {
+        jest.useFakeTimers({ now: CYCLE_START_MS, doNotFake: ['setImmediate'] });
+        const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+        trader.postOrder
+            .mockResolvedValueOnce({ error: 'not enough liquidity' })
+            .mockResolvedValueOnce({ makingAmount: '1', takingAmount: '0.6' })
+            .mockResolvedValueOnce({ makingAmount: '1', takingAmount: '0.6' });
+
+        try {
+            const record: { price: number; shares: number; exit?: any } = { price: 0.4, shares: 2 };
+            manager.open({ strategy, outcomeIndex: 1, tokenId: 'down', shares: 2, entryPrice: 0.4, simulated: false, record });
+            context.pushAggregated(80, 6);
+
+            manager.checkExits();
+            await new Promise(resolve => setImmediate(resolve));
+            expect(manager.getPositions()[0].sellFailures).toBe(1);
+
+            jest.advanceTimersByTime(5 * 1000);
+            manager.checkExits();
+            await new Promise(resolve => setImmediate(resolve));
+
+            const [position] = manager.getPositions();
+            expect(position.status).toBe('OPEN');
+            expect(position.shares).toBe(1);
+            expect(position.sellFailures).toBe(0);
+            expect(position.lastSellFailedAt).toBeNull();
+
+            manager.checkExits();
+            await new Promise(resolve => setImmediate(resolve));
+            expect(trader.postOrder).toHaveBeenCalledTimes(3);
+            expect(position.status).toBe('CLOSED');
+            expect(record.exit.shares).toBe(2);
+            expect(record.exit.price).toBeCloseTo(0.6);
+        } finally {
+            jest.useRealTimers();
+            error.mockRestore();
+        }
+    });
+});
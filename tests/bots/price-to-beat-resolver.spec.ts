@@ -0,0 +1,64 @@
+import Axios from 'axios';
+import { PriceToBeatResolver } from '../../src/bots/price-to-beat-resolver';
+import { UP_DOWN_ASSETS } from '../../src/bots/up-down-assets';
+import { PolymarketApiService } from '../../src/services/polymarket-api.service';
+
+jest.mock('axios');
+
+const START_MS = 1769385600000;
+const SLUG = `btc-updown-15m-${START_MS / 1000}`;
+
+function createResolver(event: any = null) {
+    const polymarketApiService = { getEventBySlug: jest.fn().mockResolvedValue(event) } as unknown as PolymarketApiService;
+    const resolver = new PriceToBeatResolver(polymarketApiService, { slug: SLUG, asset: UP_DOWN_ASSETS.btc, startTimestamp: START_MS, retryIntervalMs: 0 });
+    return { resolver, polymarketApiService };
+}
+
+describe('PriceToBeatResolver', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        (Axios.get as jest.Mock).mockReset();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('优先使用 Chainlink 历史标记', async () => {
+        (Axios.get as jest.Mock).mockResolvedValue({
+            data: { data: { mercuryHistory15MinMarkers: { nodes: [{ timeBucket: '2026-01-26T00:00:00+00:00', open: '100123500000000000000000' }] } } },
+        });
+        const { resolver, polymarketApiService } = createResolver();
+
+        await resolver.resolve();
+        expect(resolver.getResolution()).toMatchObject({ price: 100123.5, source: 'CHAINLINK_MARKERS', confirmed: true });
+        expect(polymarketApiService.getEventBySlug).not.toHaveBeenCalled();
+    });
+
+    it('标记缺失时使用 Polymarket 元数据，确认后覆盖临时基准', async () => {
+        (Axios.get as jest.Mock).mockRejectedValue(new Error('timeout'));
+        const { resolver } = createResolver({ eventMetadata: { priceToBeat: 100050.25 } });
+
+        resolver.addChainlinkPrice({ timestamp: START_MS + 3000, price: 100060 });
+        expect(resolver.isConfirmed()).toBe(false);
+        expect(resolver.getResolution()).toMatchObject({ price: 100060, source: 'FIRST_CAPTURED' });
+
+        await resolver.resolve();
+        expect(resolver.getResolution()).toMatchObject({ price: 100050.25, source: 'POLYMARKET_METADATA', confirmed: true });
+    });
+
+    it('周期开始时刻的实时 Chainlink 价格直接确认，之前的价格忽略', async () => {
+        const { resolver } = createResolver();
+
+        resolver.addChainlinkPrice({ timestamp: START_MS - 1000, price: 99990 });
+        expect(resolver.getResolution()).toBeNull();
+
+        resolver.addChainlinkPrice({ timestamp: START_MS, price: 100000 });
+        resolver.addChainlinkPrice({ timestamp: START_MS + 1000, price: 100010 });
+        expect(resolver.getResolution()).toMatchObject({ price: 100000, source: 'LIVE_CHAINLINK', confirmed: true });
+
+        await resolver.resolve();
+        expect(Axios.get).not.toHaveBeenCalled();
+    });
+});
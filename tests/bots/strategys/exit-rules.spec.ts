@@ -0,0 +1,53 @@
+import { MarketContext } from '../../../src/bots/market-context';
+import { BtcStopLossExitRule, ExitPolicy, ExitReason, ExitState, TakeProfitExitRule, TimeStopExitRule, TrailingStopExitRule } from '../../../src/bots/strategys/exit-rules';
+import { BASE_PRICE, createMarketContext } from '../../helpers/market-context';
+
+function createContext(elapsedMs: number, aggregatedPrice: number): MarketContext {
+    const context = createMarketContext();
+    context.pushAggregated(elapsedMs / 1000, aggregatedPrice - BASE_PRICE);
+    return context;
+}
+
+function createState(state: Partial<ExitState>): ExitState {
+    return { outcomeIndex: 0, entryPrice: 0.5, entryBtcPrice: BASE_PRICE, peakBid: 0.5, bestBid: 0.5, ...state };
+}
+
+describe('ExitRules', () => {
+    const context = createContext(60 * 1000, BASE_PRICE);
+
+    it('TakeProfit: best bid 达到 买入价 + offset', () => {
+        const rule = new TakeProfitExitRule(0.1);
+        expect(rule.shouldExit(context, createState({ bestBid: 0.59 }))).toBe(false);
+        expect(rule.shouldExit(context, createState({ bestBid: 0.6 }))).toBe(true);
+        expect(rule.shouldExit(context, createState({ bestBid: null }))).toBe(false);
+    });
+
+    it('BtcStopLoss: 按买入方向判断 BTC 反向偏移', () => {
+        const rule = new BtcStopLossExitRule(20);
+        const down = createContext(0, BASE_PRICE - 25);
+        expect(rule.shouldExit(down, createState({ outcomeIndex: 0 }))).toBe(true);
+        expect(rule.shouldExit(down, createState({ outcomeIndex: 1 }))).toBe(false);
+        expect(rule.shouldExit(createContext(0, BASE_PRICE - 15), createState({ outcomeIndex: 0 }))).toBe(false);
+        expect(rule.shouldExit(down, createState({ entryBtcPrice: null }))).toBe(false);
+    });
+
+    it('TrailingStop: 从最高 bid 回撤', () => {
+        const rule = new TrailingStopExitRule(0.05);
+        expect(rule.shouldExit(context, createState({ peakBid: 0.7, bestBid: 0.66 }))).toBe(false);
+        expect(rule.shouldExit(context, createState({ peakBid: 0.7, bestBid: 0.64 }))).toBe(true);
+    });
+
+    it('TimeStop: 周期结束前 N 秒', () => {
+        const rule = new TimeStopExitRule(30);
+        expect(rule.shouldExit(createContext(869 * 1000, BASE_PRICE), createState({}))).toBe(false);
+        expect(rule.shouldExit(createContext(870 * 1000, BASE_PRICE), createState({}))).toBe(true);
+    });
+
+    it('ExitPolicy 按顺序返回第一个触发的规则', () => {
+        const policy = new ExitPolicy([new TakeProfitExitRule(0.1), new TimeStopExitRule(30)]);
+        const late = createContext(880 * 1000, BASE_PRICE);
+        expect(policy.evaluate(late, createState({ bestBid: 0.6 }))).toBe(ExitReason.TAKE_PROFIT);
+        expect(policy.evaluate(late, createState({}))).toBe(ExitReason.TIME_STOP);
+        expect(policy.evaluate(context, createState({}))).toBeNull();
+    });
+});
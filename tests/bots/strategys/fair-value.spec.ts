@@ -0,0 +1,41 @@
+import { computeUpProbability, realizedVolatility, takerFeePerShare } from '../../../src/bots/strategys/fair-value';
+
+describe('fair-value', () => {
+    describe('realizedVolatility', () => {
+        it('按时间间隔加权，与价格顺序无关', () => {
+            // 1 秒变化 $3，2 秒变化 $1: sqrt((9 + 1) / 3)
+            const prices = [
+                { timestamp: 0, price: 100 },
+                { timestamp: 1000, price: 103 },
+                { timestamp: 3000, price: 102 },
+            ];
+            expect(realizedVolatility(prices, 2)).toBeCloseTo(Math.sqrt(10 / 3));
+            expect(realizedVolatility([...prices].reverse(), 2)).toBeCloseTo(Math.sqrt(10 / 3));
+        });
+
+        it('样本不足返回 null', () => {
+            expect(realizedVolatility([{ timestamp: 0, price: 100 }, { timestamp: 1000, price: 101 }], 2)).toBeNull();
+        });
+    });
+
+    describe('computeUpProbability', () => {
+        const PRICE_TO_BEAT = 100_000;
+
+        it('等于 price to beat 时为 50%，高出越多、标准差越小概率越高', () => {
+            expect(computeUpProbability(PRICE_TO_BEAT, PRICE_TO_BEAT, 20)).toBeCloseTo(0.5);
+            expect(computeUpProbability(PRICE_TO_BEAT + 20, PRICE_TO_BEAT, 20)).toBeCloseTo(0.8413, 3);
+            expect(computeUpProbability(PRICE_TO_BEAT + 20, PRICE_TO_BEAT, 10)).toBeCloseTo(0.9772, 3);
+            expect(computeUpProbability(PRICE_TO_BEAT - 20, PRICE_TO_BEAT, 20)).toBeCloseTo(0.1587, 3);
+        });
+
+        it('标准差为 0 时按价格与 price to beat 判定，平价算 Up', () => {
+            expect(computeUpProbability(PRICE_TO_BEAT, PRICE_TO_BEAT, 0)).toBe(1);
+            expect(computeUpProbability(PRICE_TO_BEAT - 0.01, PRICE_TO_BEAT, 0)).toBe(0);
+        });
+    });
+
+    it('takerFeePerShare 在 0.5 处最高', () => {
+        expect(takerFeePerShare(0.5, 0.25, 2)).toBeCloseTo(0.0078125);
+        expect(takerFeePerShare(0.9, 0.25, 2)).toBeLessThan(takerFeePerShare(0.5, 0.25, 2));
+    });
+});
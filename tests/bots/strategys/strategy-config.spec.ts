@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StrategyMode, StrategyType } from '../../../src/bots/strategys/base.strategy';
+import { getDefaultStrategyConfig, parseStrategyConfig, StrategyConfigLoader } from '../../../src/bots/strategys/strategy-config';
+import { createStrategys } from '../../../src/bots/strategys/strategy-registry';
+import { S36MeanReversionExtendedParams } from '../../../src/bots/strategys/s36-mean-reversion-extended.strategy';
+
+describe('StrategyConfig', () => {
+    it('未配置的字段使用默认值', () => {
+        const config = parseStrategyConfig({
+            strategys: [{ type: StrategyType.S36_MEAN_REVERSION_EXTENDED, params: { peakThreshold: 50 } }],
+        });
+
+        const item = config.strategys[0];
+        expect(item.enabled).toBe(true);
+        expect(item.mode).toBe(StrategyMode.SIMULATE);
+        expect(item.stake).toBe(1);
+        expect(item.params).toBeInstanceOf(S36MeanReversionExtendedParams);
+        expect(item.params).toMatchObject({ peakThreshold: 50, revertThreshold: 10, minDelayMs: 60000 });
+    });
+
+    it('未知策略类型报错', () => {
+        expect(() => parseStrategyConfig({ strategys: [{ type: 'S99_UNKNOWN' }] })).toThrow('strategys[0]');
+    });
+
+    it('参数不合法报错', () => {
+        expect(() => parseStrategyConfig({
+            strategys: [{ type: StrategyType.S27_MEAN_REVERSION, params: { peakThreshold: -1 } }],
+        })).toThrow('peakThreshold');
+
+        expect(() => parseStrategyConfig({
+            strategys: [{ type: StrategyType.S27_MEAN_REVERSION, params: { unknownParam: 1 } }],
+        })).toThrow('unknownParam');
+    });
+
+    it('exit 平仓规则校验并生成 exitPolicy', () => {
+        expect(() => parseStrategyConfig({
+            strategys: [{ type: StrategyType.S31_INVERT, exit: { trailingStop: 2 } }],
+        })).toThrow('trailingStop');
+
+        const config = parseStrategyConfig({
+            strategys: [
+                { type: StrategyType.S31_INVERT, exit: { trailingStop: 0.05, timeStopSeconds: 30 } },
+                { type: StrategyType.S36_MEAN_REVERSION_EXTENDED },
+            ],
+        });
+        const [s31, s36] = createStrategys(null, config);
+        expect(s31.exitPolicy.rules.map((rule) => rule.reason)).toEqual(['TRAILING_STOP', 'TIME_STOP']);
+        expect(s36.exitPolicy).toBeNull();
+    });
+
+    it('重复策略报错', () => {
+        expect(() => parseStrategyConfig({
+            strategys: [{ type: StrategyType.S31_INVERT }, { type: StrategyType.S31_INVERT }],
+        })).toThrow('duplicated');
+    });
+
+    it('按配置创建策略：过滤未启用，live 模式允许下单', () => {
+        const config = parseStrategyConfig({
+            strategys: [
+                { type: StrategyType.S27_MEAN_REVERSION, enabled: false },
+                { type: StrategyType.S36_MEAN_REVERSION_EXTENDED, mode: 'live', stake: 5 },
+            ],
+        });
+
+        const strategys = createStrategys(null, config);
+        expect(strategys).toHaveLength(1);
+        expect(strategys[0].type).toBe(StrategyType.S36_MEAN_REVERSION_EXTENDED);
+        expect(strategys[0].canBid).toBe(true);
+        expect(strategys[0].stake).toBe(5);
+    });
+
+    it('默认配置包含所有注册的策略', () => {
+        const config = getDefaultStrategyConfig();
+        expect(config.strategys.map((s) => s.type)).toEqual(Object.values(StrategyType));
+    });
+
+    it('仓库自带的配置文件合法', () => {
+        const configDir = path.join(__dirname, '../../../config');
+        const files = fs.readdirSync(configDir).filter((file) => file.startsWith('strategys') && file.endsWith('.json'));
+        expect(files).toContain('strategys.json');
+
+        for (const file of files) {
+            const loader = new StrategyConfigLoader(path.join(configDir, file));
+            expect(() => loader.load()).not.toThrow();
+        }
+    });
+
+    describe('StrategyConfigLoader', () => {
+        let dir: string;
+        let file: string;
+        let error: typeof console.error;
+
+        beforeEach(() => {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), 'strategy-config-'));
+            file = path.join(dir, 'strategys.json');
+            error = console.error;
+            console.error = () => {};
+        });
+
+        afterEach(() => {
+            console.error = error;
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        function write(config: object, mtime: number) {
+            fs.writeFileSync(file, JSON.stringify(config));
+            fs.utimesSync(file, mtime, mtime);
+        }
+
+        it('启动时配置不合法直接抛出', () => {
+            write({ strategys: [{ type: 'S99_UNKNOWN' }] }, 1000);
+            expect(() => new StrategyConfigLoader(file).load()).toThrow();
+        });
+
+        it('文件变更后热加载，新配置不合法时保留旧配置', () => {
+            write({ strategys: [{ type: StrategyType.S27_MEAN_REVERSION, stake: 1 }] }, 1000);
+            const loader = new StrategyConfigLoader(file);
+            loader.load();
+
+            write({ strategys: [{ type: StrategyType.S27_MEAN_REVERSION, stake: 2 }] }, 2000);
+            expect(loader.reload().strategys[0].stake).toBe(2);
+
+            write({ strategys: [{ type: StrategyType.S27_MEAN_REVERSION, stake: -1 }] }, 3000);
+            expect(loader.reload().strategys[0].stake).toBe(2);
+        });
+    });
+});
@@ -0,0 +1,248 @@
+import { BaseStrategy, StrategyOptions } from '../../../src/bots/strategys/base.strategy';
+import { ExitReason } from '../../../src/bots/strategys/exit-rules';
+import { computeUpProbability } from '../../../src/bots/strategys/fair-value';
+import { S27MeanReversionParams, S27MeanReversionStrategy } from '../../../src/bots/strategys/s27-mean-reversion.strategy';
+import { S31InvertParams, S31InvertStrategy } from '../../../src/bots/strategys/s31-invert.strategy';
+import { S34InvertAggregatedParams, S34InvertAggregatedStrategy } from '../../../src/bots/strategys/s34-invert-aggregated.strategy';
+import { S35MeanReversionAggregatedParams, S35MeanReversionAggregatedStrategy } from '../../../src/bots/strategys/s35-mean-reversion-aggregated.strategy';
+import { S36MeanReversionExtendedParams, S36MeanReversionExtendedStrategy } from '../../../src/bots/strategys/s36-mean-reversion-extended.strategy';
+import { S37MeanReversionTakeProfitParams, S37MeanReversionTakeProfitStrategy } from '../../../src/bots/strategys/s37-mean-reversion-take-profit.strategy';
+import { S38FairValueEdgeParams, S38FairValueEdgeStrategy } from '../../../src/bots/strategys/s38-fair-value-edge.strategy';
+import { BASE_PRICE, createMarketContext, SyntheticMarketContext } from '../../helpers/market-context';
+
+function options<P extends object>(params: P): StrategyOptions<P> {
+    return { params, canBid: false, stake: 1 };
+}
+
+/** 暴露 BaseStrategy.getFairValue 供测试 */
+class FairValueProbe extends BaseStrategy {
+    public checkSignal(): [boolean, number] {
+        return [false, -1];
+    }
+
+    public fairValue(outcomeIndex: number): number | null {
+        return this.getFairValue(outcomeIndex);
+    }
+}
+
+describe('Strategys', () => {
+    let context: SyntheticMarketContext;
+    let log: typeof console.log;
+
+    beforeAll(() => {
+        log = console.log;
+        console.log = () => {};
+    });
+
+    afterAll(() => {
+        console.log = log;
+    });
+
+    beforeEach(() => {
+        context = createMarketContext();
+    });
+
+    describe('BaseStrategy.getFairValue', () => {
+        it('Up 取预测的 upProbability，Down 取 1 - upProbability', () => {
+            const strategy = new FairValueProbe(context, options({}));
+            context.chainlinkPrediction = {
+                timestamp: context.now,
+                nextTimestamp: context.now + 1000,
+                nextPrice: BASE_PRICE + 20,
+                priceToBeat: BASE_PRICE,
+                volatility: 2,
+                settlementStdDev: 20,
+                upProbability: computeUpProbability(BASE_PRICE + 20, BASE_PRICE, 20),
+            };
+
+            expect(strategy.fairValue(0)).toBeCloseTo(0.8413, 3);
+            expect(strategy.fairValue(1)).toBeCloseTo(0.1587, 3);
+            expect(strategy.fairValue(2)).toBeNull();
+        });
+
+        it('没有预测时返回 null', () => {
+            const strategy = new FairValueProbe(context, options({}));
+            expect(strategy.fairValue(0)).toBeNull();
+        });
+    });
+
+    describe('S27MeanReversionStrategy', () => {
+        it('Chainlink 偏移 $30 后回落到 $10 以内，买反向', () => {
+            const strategy = new S27MeanReversionStrategy(context, options(new S27MeanReversionParams()));
+            context.pushChainlink(0, 0);
+            context.pushChainlink(10, 35);
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+
+            context.pushChainlink(20, 5);
+            expect(strategy.checkSignal()).toEqual([true, 1]);
+
+            // 每个周期只触发一次
+            context.pushChainlink(30, 0);
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+        });
+
+        it('不看聚合价格', () => {
+            const strategy = new S27MeanReversionStrategy(context, options(new S27MeanReversionParams()));
+            context.pushAggregated(0, 0);
+            context.pushAggregated(10, 35);
+            context.pushAggregated(20, 5);
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+        });
+    });
+
+    describe('S31InvertStrategy', () => {
+        it('偏移变化 $20 以上且方向反转，买反转后方向', () => {
+            const strategy = new S31InvertStrategy(context, options(new S31InvertParams()));
+            context.pushChainlink(0, 0);
+            context.pushChainlink(10, 15);
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+
+            context.pushChainlink(20, -10);
+            expect(strategy.checkSignal()).toEqual([true, 1]);
+        });
+
+        it('变化不足 $20 不触发', () => {
+            const strategy = new S31InvertStrategy(context, options(new S31InvertParams()));
+            context.pushChainlink(0, 0);
+            context.pushChainlink(10, 5);
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+
+            context.pushChainlink(20, -5);
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+        });
+    });
+
+    describe('S34InvertAggregatedStrategy', () => {
+        it('聚合价格方向反转，买反转后方向', () => {
+            const strategy = new S34InvertAggregatedStrategy(context, options(new S34InvertAggregatedParams()));
+            context.pushAggregated(0, 0);
+            context.pushAggregated(10, -15);
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+
+            context.pushAggregated(20, 10);
+            expect(strategy.checkSignal()).toEqual([true, 0]);
+        });
+    });
+
+    describe('S35MeanReversionAggregatedStrategy', () => {
+        it('周期开始 1 分钟内不触发', () => {
+            const strategy = new S35MeanReversionAggregatedStrategy(context, options(new S35MeanReversionAggregatedParams()));
+            context.pushAggregated(0, 0);
+            context.pushAggregated(10, 35);
+            context.pushAggregated(20, 5);
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+        });
+
+        it('1 分钟后回落到 $10 以内，买反向', () => {
+            const strategy = new S35MeanReversionAggregatedStrategy(context, options(new S35MeanReversionAggregatedParams()));
+            context.pushAggregated(0, 0);
+            context.pushAggregated(61, -35);
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+
+            context.pushAggregated(70, -5);
+            expect(strategy.checkSignal()).toEqual([true, 0]);
+        });
+
+        it('穿越到反方向超过 $10 不触发', () => {
+            const strategy = new S35MeanReversionAggregatedStrategy(context, options(new S35MeanReversionAggregatedParams()));
+            context.pushAggregated(0, 0);
+            context.pushAggregated(61, 35);
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+
+            context.pushAggregated(70, -20);
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+        });
+    });
+
+    describe('S36MeanReversionExtendedStrategy', () => {
+        it('UP 趋势后 deviation < $10 即触发（包括反方向）', () => {
+            const strategy = new S36MeanReversionExtendedStrategy(context, options(new S36MeanReversionExtendedParams()));
+            context.pushAggregated(0, 0);
+            context.pushAggregated(61, 35);
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+
+            context.pushAggregated(70, -20);
+            expect(strategy.checkSignal()).toEqual([true, 1]);
+        });
+    });
+
+    describe('S37MeanReversionTakeProfitStrategy', () => {
+        it('10 分钟后不再触发', () => {
+            const strategy = new S37MeanReversionTakeProfitStrategy(context, options(new S37MeanReversionTakeProfitParams()));
+            context.pushAggregated(0, 0);
+            context.pushAggregated(601, 35);
+            context.pushAggregated(610, 5);
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+        });
+
+        it('买 Down 后默认止盈 +0.1，BTC 回到买入价之上时止损', () => {
+            const strategy = new S37MeanReversionTakeProfitStrategy(context, options(new S37MeanReversionTakeProfitParams()));
+            context.pushAggregated(0, 0);
+            context.pushAggregated(61, 35);
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+
+            context.pushAggregated(70, 5);
+            expect(strategy.checkSignal()).toEqual([true, 1]);
+
+            const state = { outcomeIndex: 1, entryPrice: 0.4, entryBtcPrice: BASE_PRICE + 5, peakBid: 0.45, bestBid: 0.45 };
+            expect(strategy.exitPolicy.evaluate(context, state)).toBeNull();
+            expect(strategy.exitPolicy.evaluate(context, { ...state, bestBid: 0.5 })).toBe(ExitReason.TAKE_PROFIT);
+
+            context.pushAggregated(80, 6);
+            expect(strategy.exitPolicy.evaluate(context, state)).toBe(ExitReason.STOP_LOSS);
+        });
+    });
+
+    describe('S38FairValueEdgeStrategy', () => {
+        // 91 秒时预测结算价格高于 price to beat $30，结算标准差 $240，Up 理论概率约 55%
+        const predictAbovePriceToBeat = () => {
+            context.pushChainlink(91, 30);
+            context.chainlinkPrediction = {
+                timestamp: context.now,
+                nextTimestamp: context.now + 1000,
+                nextPrice: BASE_PRICE + 30,
+                priceToBeat: BASE_PRICE,
+                volatility: 8.5,
+                settlementStdDev: 240,
+                upProbability: computeUpProbability(BASE_PRICE + 30, BASE_PRICE, 240),
+            };
+        };
+
+        it('Up 价格低于理论概率超过 edge，买 Up', () => {
+            const strategy = new S38FairValueEdgeStrategy(context, options(new S38FairValueEdgeParams()));
+            predictAbovePriceToBeat();
+            context.outcomePrices = { Up: 0.45, Down: 0.56 };
+            expect(strategy.checkSignal()).toEqual([true, 0]);
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+        });
+
+        it('Down 价格低于理论概率超过 edge，买 Down', () => {
+            const strategy = new S38FairValueEdgeStrategy(context, options(new S38FairValueEdgeParams()));
+            predictAbovePriceToBeat();
+            context.outcomePrices = { Up: 0.62, Down: 0.35 };
+            expect(strategy.checkSignal()).toEqual([true, 1]);
+        });
+
+        it('价格接近理论概率不触发', () => {
+            const strategy = new S38FairValueEdgeStrategy(context, options(new S38FairValueEdgeParams()));
+            predictAbovePriceToBeat();
+            context.outcomePrices = { Up: 0.58, Down: 0.43 };
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+        });
+
+        it('没有 Chainlink 预测（price to beat 未解析）时不触发', () => {
+            const strategy = new S38FairValueEdgeStrategy(context, options(new S38FairValueEdgeParams()));
+            context.pushChainlink(91, 30);
+            context.outcomePrices = { Up: 0.2, Down: 0.81 };
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+        });
+
+        it('周期开始 1 分钟内不触发', () => {
+            const strategy = new S38FairValueEdgeStrategy(context, options(new S38FairValueEdgeParams()));
+            predictAbovePriceToBeat();
+            context.pushChainlink(31, 30);
+            context.outcomePrices = { Up: 0.2, Down: 0.81 };
+            expect(strategy.checkSignal()).toEqual([false, -1]);
+        });
+    });
+});
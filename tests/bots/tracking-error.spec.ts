@@ -0,0 +1,23 @@
+import { computeTrackingError } from '../../src/bots/tracking-error';
+
+const START_MS = 1769385600000;
+
+describe('computeTrackingError', () => {
+    it('每个 Chainlink 价格点对比之前最近的预测价格', () => {
+        const predicted = [
+            { timestamp: START_MS + 2000, price: 103 },
+            { timestamp: START_MS, price: 101 },
+        ];
+        const chainlink = [
+            { timestamp: START_MS - 1000, price: 100 },    // 之前没有预测价格，跳过
+            { timestamp: START_MS + 1000, price: 100 },    // +1
+            { timestamp: START_MS + 3000, price: 106 },    // -3
+        ];
+
+        const error = computeTrackingError(predicted, chainlink);
+        expect(error.samples).toBe(2);
+        expect(error.bias).toBe(-1);
+        expect(error.meanAbsError).toBe(2);
+        expect(error.rmse).toBeCloseTo(Math.sqrt(5));
+    });
+});
@@ -0,0 +1,17 @@
+import '../helpers/mock-clob-client';
+import { PolymarketTrader } from '../../src/bots/polymarket-trader';
+import { UpDownExecutorManager } from '../../src/bots/up-down-executor-manager';
+import { PolymarketApiService } from '../../src/services/polymarket-api.service';
+
+// manager 的依赖注入元数据会加载 PolymarketTrader（依赖 ESM 包 order-utils）
+jest.mock('../../src/bots/polymarket-trader', () => ({ PolymarketTrader: class {} }));
+
+describe('UpDownExecutorManager', () => {
+    it('没有策略配置的资产/周期组合启动前拒绝', async () => {
+        const manager = new UpDownExecutorManager({} as PolymarketApiService, {} as PolymarketTrader);
+
+        await expect(manager.execute(['eth', 'sol'], '5m')).rejects.toThrow(
+            'Unsupported asset/interval, strategy config not found: eth 5m (./config/strategys-eth-5m.json), sol 5m (./config/strategys-sol-5m.json)',
+        );
+    });
+});
@@ -0,0 +1,134 @@
+import '../helpers/mock-clob-client';
+import { BaseStrategy, StrategyType } from '../../src/bots/strategys/base.strategy';
+import { UP_DOWN_ASSETS } from '../../src/bots/up-down-assets';
+import { UpDownExecutor } from '../../src/bots/up-down-executor';
+import { PolymarketTrader } from '../../src/bots/polymarket-trader';
+import { CycleStorage } from '../../src/libs/cycle-storage/interfaces';
+import { MemoryCycleEventSink } from '../../src/libs/cycle-storage/memory-cycle-event-sink';
+import { PolymarketApiService } from '../../src/services/polymarket-api.service';
+import { POLYMARKET_LIVE_DATA_WS_URL } from '../../src/common/common-types';
+import { POLYMARKET_WS_URL } from '../../src/libs/polymarket-order-book/order-book-manager';
+import { setWebSocketTransport } from '../../src/libs/websocket-connection';
+import { MockWebSocketServer } from '../helpers/mock-websocket-server';
+import { createBook, createMarket, CYCLE_START, waitFor } from '../helpers/order-book-fixtures';
+
+const SLUG = `btc-updown-15m-${CYCLE_START}`;
+
+/** Up 盘口价格低于 0.5 时买 Up */
+class CheapUpStrategy extends BaseStrategy {
+    public readonly type = StrategyType.S31_INVERT;
+
+    public checkSignal(): [boolean, number] {
+        return this.context.getOutcomePrices()['Up'] < 0.5 ? [true, 0] : [false, -1];
+    }
+}
+
+function createExecutor(eventSink: MemoryCycleEventSink) {
+    const cycleStorage: CycleStorage = { type: 'json', saveCycle: jest.fn(), flush: jest.fn(), close: jest.fn() };
+    const executor = new UpDownExecutor({} as PolymarketApiService, {} as PolymarketTrader, {
+        command: 'test',
+        asset: UP_DOWN_ASSETS.btc,
+        interval: '15m',
+        cycleStorage,
+        eventSink,
+    });
+
+    // 跳过 initialize()（需要网络），直接设置周期状态
+    const internal = executor as any;
+    internal.market = { slug: SLUG };
+    internal.outcomes = ['Up', 'Down'];
+    internal.tokenIds = ['1', '2'];
+    internal.recorder.setSlug(SLUG);
+    internal.strategys = [new CheapUpStrategy(executor, { params: {}, canBid: false, stake: 1 })];
+    internal.orderBookManager = { getOrderBookSnapshotByTokenId: () => [{ price: '0.45', size: '100' }] };
+    return internal;
+}
+
+describe('UpDownExecutor', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('盘口 tick、策略信号、模拟下单和成交发布到事件输出', () => {
+        const eventSink = new MemoryCycleEventSink();
+        const executor = createExecutor(eventSink);
+
+        executor.onOrderBookEvent({ type: 'best-price', assetId: '2', bestBid: 0.54, bestAsk: 0.56, ts: CYCLE_START * 1000 + 1000 });
+        executor.onOrderBookEvent({ type: 'best-price', assetId: '1', bestBid: 0.44, bestAsk: 0.45, ts: CYCLE_START * 1000 + 1000 });
+
+        expect(eventSink.getEvents('tick')).toEqual([
+            { type: 'tick', slug: SLUG, timestamp: CYCLE_START * 1000 + 1000, source: 'order-book', data: { Down: 0.56 } },
+            { type: 'tick', slug: SLUG, timestamp: CYCLE_START * 1000 + 1000, source: 'order-book', data: { Down: 0.56, Up: 0.45 } },
+        ]);
+        expect(eventSink.getEvents('signal')).toMatchObject([{ slug: SLUG, strategy: StrategyType.S31_INVERT, outcome: 'Up' }]);
+        expect(eventSink.getEvents('order')).toMatchObject([{ side: 'BUY', amount: 1, simulated: true }]);
+        expect(eventSink.getEvents('fill')).toMatchObject([{ side: 'BUY', price: 0.45, shares: 2.23, simulated: true }]);
+    });
+
+    it('订单簿等待快照时跳过模拟下单', () => {
+        const eventSink = new MemoryCycleEventSink();
+        const executor = createExecutor(eventSink);
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        executor.orderBookManager = {
+            getOrderBookSnapshotByTokenId: () => {
+                throw new Error('Order book is awaiting snapshot');
+            },
+        };
+
+        executor.onOrderBookEvent({ type: 'best-price', assetId: '1', bestBid: 0.44, bestAsk: 0.45, ts: CYCLE_START * 1000 + 1000 });
+
+        expect(executor.simulatedBidResults).toEqual([]);
+        expect(eventSink.getEvents('fill')).toEqual([]);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Simulate Bid skipped'));
+    });
+
+    it('预热的市场切换后立即可以读取两个 outcome 的价格', async () => {
+        const server = await MockWebSocketServer.start();
+        setWebSocketTransport(server.transport);
+        const executor = new UpDownExecutor(
+            { getMarketBySlug: jest.fn().mockResolvedValue(createMarket()) } as unknown as PolymarketApiService,
+            { initialize: jest.fn(), buildMarketOrder: jest.fn() } as unknown as PolymarketTrader,
+            { command: 'test', asset: UP_DOWN_ASSETS.btc, interval: '15m', eventSink: new MemoryCycleEventSink() },
+        );
+        const internal = executor as any;
+
+        try {
+            const prewarmed = await internal.nextMarketPrewarmer.prewarm(SLUG, Date.now());
+            const client = await server.waitForClient(POLYMARKET_WS_URL);
+            await server.waitForMessages(client);
+            server.send(client, [createBook('1', { bid: '0.44', ask: '0.45' }), createBook('2', { bid: '0.55', ask: '0.56' })]);
+            await waitFor(() => prewarmed.orderBookManager.isBookReady());
+
+            // 快照和最优价在 executor 订阅 events$ 之前已经发布
+            await executor.initialize(SLUG);
+            expect(internal.orderBookManager).toBe(prewarmed.orderBookManager);
+            expect(executor.getOutcomePrices()).toEqual({ Up: 0.45, Down: 0.56 });
+
+            await waitFor(() => internal.marketLiveDataConnection.isConnected());
+        } finally {
+            internal.marketLiveDataConnection?.destroy();
+            internal.orderBookHub.destroy();
+            setWebSocketTransport(null);
+            await server.stop();
+        }
+    });
+
+    it('Chainlink 价格记录为 tick', () => {
+        const eventSink = new MemoryCycleEventSink();
+        const executor = createExecutor(eventSink);
+
+        executor.handleMarketLiveDataMessage(JSON.stringify({
+            topic: 'crypto_prices_chainlink',
+            payload: { timestamp: CYCLE_START * 1000, value: 100000 },
+        }));
+
+        expect(eventSink.getEvents()).toEqual([
+            { type: 'tick', slug: SLUG, timestamp: CYCLE_START * 1000, source: 'chainlink', data: { price: 100000 } },
+        ]);
+    });
+});
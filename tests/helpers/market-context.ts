@@ -0,0 +1,73 @@
+import { OrderSummary, Side } from '@polymarket/clob-client';
+import { ChainlinkPrediction } from '../../src/bots/chainlink-predictor';
+import { MarketContext, PricePoint } from '../../src/bots/market-context';
+import { CYCLE_START_MS } from './order-book-fixtures';
+
+/** 合成价格的基准 BTC 价格，push 时传入相对它的偏移 */
+export const BASE_PRICE = 100_000;
+
+/** 合成的 MarketContext，价格按时间顺序 push，内部以 新 -> 旧 存储；当前时间跟随最后一次 push */
+export class SyntheticMarketContext implements MarketContext {
+    public readonly outcomes = ['Up', 'Down'];
+    public now = CYCLE_START_MS;
+    public outcomePrices: Record<string, number> = { Up: 0.5, Down: 0.5 };
+    public orderBook: Partial<Record<Side, OrderSummary[]>> = {};   // BUY -> asks, SELL -> bids
+    public chainlinkPrediction: ChainlinkPrediction | null = null;
+
+    private chainlinkPrices: PricePoint[] = [];
+    private aggregatedPrices: PricePoint[] = [];
+
+    public pushChainlink(secondsFromStart: number, deviation: number) {
+        this.now = CYCLE_START_MS + secondsFromStart * 1000;
+        this.chainlinkPrices.unshift({ timestamp: this.now, price: BASE_PRICE + deviation });
+    }
+
+    public pushAggregated(secondsFromStart: number, deviation: number) {
+        this.now = CYCLE_START_MS + secondsFromStart * 1000;
+        this.aggregatedPrices.unshift({ timestamp: this.now, price: BASE_PRICE + deviation });
+    }
+
+    public getCycleStartTimestamp(): number {
+        return CYCLE_START_MS;
+    }
+
+    public getCycleDurationMs(): number {
+        return 15 * 60 * 1000;
+    }
+
+    public getElapsedMs(): number {
+        return this.now - CYCLE_START_MS;
+    }
+
+    public getChainlinkPrices(): readonly PricePoint[] {
+        return this.chainlinkPrices;
+    }
+
+    public getAggregatedPrices(): readonly PricePoint[] | null {
+        return this.aggregatedPrices.length > 0 ? this.aggregatedPrices : null;
+    }
+
+    public isBaselineConfirmed() {
+        return true;
+    }
+
+    public getChainlinkTrackingStats() {
+        return null;
+    }
+
+    public getChainlinkPrediction(): ChainlinkPrediction | null {
+        return this.chainlinkPrediction;
+    }
+
+    public getOutcomePrices(): Readonly<Record<string, number>> {
+        return this.outcomePrices;
+    }
+
+    public getOrderBookSnapshot(outcomeIndex: number, side: Side): OrderSummary[] | null {
+        return this.orderBook[side] ?? null;
+    }
+}
+
+export function createMarketContext(): SyntheticMarketContext {
+    return new SyntheticMarketContext();
+}
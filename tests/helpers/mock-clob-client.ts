@@ -0,0 +1,11 @@
+/**
+ * clob-client 为 ESM 包，jest 下只需要枚举
+ *
+ * 在 spec 中作为第一个 import，保证在被测模块 require clob-client 之前注册：
+ *
+ *   import '../helpers/mock-clob-client';
+ */
+jest.mock('@polymarket/clob-client', () => ({
+    Side: { BUY: 'BUY', SELL: 'SELL' },
+    OrderType: { GTC: 'GTC', FOK: 'FOK', GTD: 'GTD', FAK: 'FAK' },
+}));
@@ -0,0 +1,96 @@
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { createUrlOverrideTransport, WebSocketTransport } from '../../src/libs/websocket-connection';
+
+/** mock 服务上的一个客户端连接，target 为客户端原本要连接的 url */
+export interface MockWebSocketClient {
+    target: string;
+    socket: WebSocket;
+    received: string[];
+}
+
+/**
+ * 本地 mock WebSocket 服务，配合 transport 让各数据源连接到本地并回放 fixture
+ *
+ *   const server = await MockWebSocketServer.start();
+ *   setWebSocketTransport(server.transport);     // 或在构造时传入 transport
+ *   const client = await server.waitForClient('wss://ws.okx.com');
+ *   server.send(client, fixture);
+ *   await server.stop();
+ */
+export class MockWebSocketServer {
+    public readonly clients: MockWebSocketClient[] = [];
+    public readonly url: string;
+    public readonly transport: WebSocketTransport;
+
+    private waiters: { prefix: string; resolve: (client: MockWebSocketClient) => void }[] = [];
+
+    private constructor(private readonly server: WebSocketServer) {
+        this.url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        this.transport = createUrlOverrideTransport(this.url);
+
+        server.on('connection', (socket, request) => {
+            const target = new URL(request.url, this.url).searchParams.get('target') ?? '';
+            const client: MockWebSocketClient = { target, socket, received: [] };
+            socket.on('message', (data) => client.received.push(data.toString()));
+            this.clients.push(client);
+
+            this.waiters = this.waiters.filter((waiter) => {
+                if (!target.startsWith(waiter.prefix)) {
+                    return true;
+                }
+                waiter.resolve(client);
+                return false;
+            });
+        });
+    }
+
+    public static async start(): Promise<MockWebSocketServer> {
+        const server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+        await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+        return new MockWebSocketServer(server);
+    }
+
+    /**
+     * 等待 target 以 prefix 开头的客户端连接（已连接的直接返回）
+     */
+    public waitForClient(prefix: string = ''): Promise<MockWebSocketClient> {
+        const connected = this.clients.find((client) => client.target.startsWith(prefix) && client.socket.readyState === WebSocket.OPEN);
+        if (connected) {
+            return Promise.resolve(connected);
+        }
+
+        return new Promise((resolve) => this.waiters.push({ prefix, resolve }));
+    }
+
+    /**
+     * 等待客户端发送第 count 条消息（如订阅消息），返回已收到的全部消息
+     */
+    public async waitForMessages(client: MockWebSocketClient, count: number = 1, timeoutMs: number = 2000): Promise<string[]> {
+        const deadline = Date.now() + timeoutMs;
+        while (client.received.length < count) {
+            if (Date.now() > deadline) {
+                throw new Error(`[MockWebSocketServer] ${client.target} received ${client.received.length}/${count} messages`);
+            }
+            await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+
+        return client.received;
+    }
+
+    /**
+     * 向客户端推送 fixture，对象按 JSON 发送
+     */
+    public send(client: MockWebSocketClient, ...messages: (string | object)[]) {
+        for (const message of messages) {
+            client.socket.send(typeof message === 'string' ? message : JSON.stringify(message));
+        }
+    }
+
+    public async stop(): Promise<void> {
+        for (const client of this.clients) {
+            client.socket.terminate();
+        }
+        await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    }
+}
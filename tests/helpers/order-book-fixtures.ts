@@ -0,0 +1,40 @@
+import { IMarket } from '../../src/libs/polymarket-order-book/interfaces';
+
+/** 周期开始时间（秒），slug 时间戳 */
+export const CYCLE_START = 1769385600;
+export const CYCLE_START_MS = CYCLE_START * 1000;
+
+/** Up/Down 市场，默认 token id 为 1 / 2 */
+export function createMarket(start: number = CYCLE_START, tokenIds: string[] = ['1', '2']): IMarket {
+    return {
+        slug: `btc-updown-15m-${start}`,
+        clobTokenIds: JSON.stringify(tokenIds),
+        outcomes: JSON.stringify(['Up', 'Down']),
+        orderPriceMinTickSize: 0.01,
+    } as IMarket;
+}
+
+/** book 快照消息，默认 0.48 / 0.52 各 100 */
+export function createBook(assetId: string = '1', options: { bid?: string; ask?: string; timestamp?: number } = {}) {
+    return {
+        event_type: 'book',
+        asset_id: assetId,
+        timestamp: `${options.timestamp ?? CYCLE_START_MS}`,
+        bids: [{ price: options.bid ?? '0.48', size: '100' }],
+        asks: [{ price: options.ask ?? '0.52', size: '100' }],
+    };
+}
+
+export const MARKET = createMarket();
+export const BOOK = createBook();
+
+/** 轮询等待条件成立，超时抛出 */
+export async function waitFor(predicate: () => boolean, timeoutMs: number = 3000) {
+    const deadline = Date.now() + timeoutMs;
+    while (!predicate()) {
+        if (Date.now() > deadline) {
+            throw new Error('waitFor timeout');
+        }
+        await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+}
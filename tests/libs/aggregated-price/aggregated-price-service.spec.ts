@@ -0,0 +1,145 @@
+import { AggregatedPriceService } from '../../../src/libs/aggregated-price/aggregated-price-service';
+import { BINANCE_ADAPTER, BITSTAMP_ADAPTER, COINBASE_ADAPTER, FX_KRAKEN_ADAPTER, KRAKEN_ADAPTER, OKX_ADAPTER } from '../../../src/libs/aggregated-price/exchange-adapters';
+import { AggregatedPriceData, ExchangeAdapter } from '../../../src/libs/aggregated-price/interfaces';
+
+const NOW = 1769385600000;
+
+describe('AggregatedPriceService', () => {
+    let service: AggregatedPriceService;
+    let updates: AggregatedPriceData[];
+
+    // 不建立连接，直接喂入交易所推送
+    const push = (adapter: ExchangeAdapter, message: any) => (service as any).handleMessage(adapter, JSON.stringify(message));
+    const pushUsd = (adapter: ExchangeAdapter, price: number) => {
+        if (adapter === COINBASE_ADAPTER) push(adapter, { best_bid: `${price}`, best_ask: `${price}` });
+        if (adapter === KRAKEN_ADAPTER) push(adapter, [1, { b: [`${price}`], a: [`${price}`] }]);
+        if (adapter === BITSTAMP_ADAPTER) push(adapter, { event: 'trade', data: { price } });
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: NOW });
+        updates = [];
+        service = new AggregatedPriceService({ symbol: 'btc', silent: true, onPriceUpdate: (data) => updates.push(data) });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('USD 源取中位数并报告参与的数据源', () => {
+        pushUsd(COINBASE_ADAPTER, 100_000);
+        pushUsd(KRAKEN_ADAPTER, 100_010);
+        pushUsd(BITSTAMP_ADAPTER, 100_020);
+        push(BINANCE_ADAPTER, { b: '100030', a: '100030' });  // 没有汇率
+
+        const data = service.getPriceData();
+        expect(data.price).toBe(100_010);
+        expect(data.contributingSources.sort()).toEqual(['BITSTAMP', 'COINBASE', 'KRAKEN']);
+        expect(data.excludedSources).toEqual({ BINANCE: 'NO_USDT_RATE' });
+        expect(updates).toHaveLength(1);
+    });
+
+    it('超过 staleMs 未更新的源被剔除，汇率过期时 USDT 源也被剔除', () => {
+        service = new AggregatedPriceService({ symbol: 'btc', silent: true, usdtRateStaleMs: 30 * 1000 });
+        push(FX_KRAKEN_ADAPTER, [1, { b: ['1'], a: ['1'] }]);
+        pushUsd(COINBASE_ADAPTER, 100_000);
+
+        jest.setSystemTime(NOW + 31 * 1000);
+        pushUsd(KRAKEN_ADAPTER, 100_010);
+        pushUsd(BITSTAMP_ADAPTER, 100_020);
+        push(OKX_ADAPTER, { arg: { channel: 'tickers' }, data: [{ bidPx: '100030', askPx: '100030' }] });
+        expect(service.getPrice()).toBe(0);
+
+        push(BINANCE_ADAPTER, { b: '100040', a: '100040' });
+        expect(service.getPrice()).toBe(0);
+
+        push(FX_KRAKEN_ADAPTER, [1, { b: ['1'], a: ['1'] }]);
+        const data = service.getPriceData();
+        expect(data.price).toBe(100_025);
+        expect(data.excludedSources).toEqual({ COINBASE: 'STALE' });
+    });
+
+    it('汇率行情较长时间没有推送时 USDT 源仍参与聚合', () => {
+        push(FX_KRAKEN_ADAPTER, [1, { b: ['1'], a: ['1'] }]);
+
+        jest.setSystemTime(NOW + 5 * 60 * 1000);
+        pushUsd(COINBASE_ADAPTER, 100_000);
+        push(BINANCE_ADAPTER, { b: '100010', a: '100010' });
+        push(OKX_ADAPTER, { arg: { channel: 'tickers' }, data: [{ bidPx: '100020', askPx: '100020' }] });
+
+        const data = service.getPriceData();
+        expect(data.contributingSources.sort()).toEqual(['BINANCE', 'COINBASE', 'OKX']);
+        expect(data.excludedSources).toEqual({});
+
+        // 超过 usdtRateStaleMs（默认 10 分钟）后汇率失效
+        jest.setSystemTime(NOW + 11 * 60 * 1000);
+        pushUsd(COINBASE_ADAPTER, 100_000);
+        pushUsd(KRAKEN_ADAPTER, 100_010);
+        pushUsd(BITSTAMP_ADAPTER, 100_020);
+        push(BINANCE_ADAPTER, { b: '100010', a: '100010' });
+        expect(service.getPriceData().excludedSources).toEqual({ BINANCE: 'NO_USDT_RATE', OKX: 'STALE' });
+    });
+
+    it('可用源不足时更新数据源情况并将价格标记为不可用，恢复后重新发布', () => {
+        pushUsd(COINBASE_ADAPTER, 100_000);
+        pushUsd(KRAKEN_ADAPTER, 100_010);
+        pushUsd(BITSTAMP_ADAPTER, 100_020);
+        expect(service.getPrice()).toBe(100_010);
+
+        jest.setSystemTime(NOW + 31 * 1000);
+        pushUsd(COINBASE_ADAPTER, 100_000);
+
+        const data = service.getPriceData();
+        expect(data.price).toBe(0);
+        expect(data.contributingSources).toEqual(['COINBASE']);
+        expect(data.excludedSources).toEqual({ KRAKEN: 'STALE', BITSTAMP: 'STALE' });
+        expect(data.modePrices.median).toBeNull();
+        expect(service.hasValidPrice()).toBe(false);
+        expect(updates).toHaveLength(1);
+
+        pushUsd(KRAKEN_ADAPTER, 100_010);
+        pushUsd(BITSTAMP_ADAPTER, 100_020);
+        expect(service.getPrice()).toBe(100_010);
+        expect(updates).toHaveLength(2);
+    });
+
+    it('偏离中位数过大的源按 MAD 剔除', () => {
+        push(FX_KRAKEN_ADAPTER, [1, { b: ['1'], a: ['1'] }]);
+        pushUsd(COINBASE_ADAPTER, 100_000);
+        pushUsd(KRAKEN_ADAPTER, 100_010);
+        pushUsd(BITSTAMP_ADAPTER, 100_020);
+        push(OKX_ADAPTER, { arg: { channel: 'tickers' }, data: [{ bidPx: '100015', askPx: '100015' }] });
+        push(BINANCE_ADAPTER, { b: '101000', a: '101000' });
+
+        const data = service.getPriceData();
+        expect(data.excludedSources).toEqual({ BINANCE: 'OUTLIER' });
+        expect(data.activeSources).toBe(4);
+        expect(data.price).toBe(100_012.5);
+    });
+
+    it('vwap / hybrid 使用窗口内成交，按 mode 发布价格', () => {
+        service = new AggregatedPriceService({ symbol: 'btc', silent: true, mode: 'vwap' });
+        pushUsd(COINBASE_ADAPTER, 100_000);
+        pushUsd(KRAKEN_ADAPTER, 100_010);
+        push(COINBASE_ADAPTER, { type: 'match', price: '100000', size: '3' });
+        push(KRAKEN_ADAPTER, [1, [['100020', '1', '0', 'b', 'm', '']], 'trade', 'XBT/USD']);
+        // bitstamp 的 live_trades 同时是中间价和成交
+        push(BITSTAMP_ADAPTER, { event: 'trade', data: { price: 100_040, amount: 1 } });
+
+        const data = service.getPriceData();
+        expect(data.mode).toBe('vwap');
+        expect(data.price).toBe(100_012);
+        expect(data.modePrices).toEqual({ median: 100_010, vwap: 100_012, hybrid: 100_020 });
+
+        // 超出成交窗口后 vwap 没有数据，hybrid 退回中间价
+        jest.setSystemTime(NOW + 11 * 1000);
+        pushUsd(KRAKEN_ADAPTER, 100_010);
+        pushUsd(COINBASE_ADAPTER, 100_000);
+        push(BITSTAMP_ADAPTER, { event: 'trade', data: { price: 100_040, amount: 1 } });
+        expect(service.getPriceData().modePrices).toEqual({ median: 100_010, vwap: 100_040, hybrid: 100_010 });
+    });
+
+    it('不支持的聚合方式报错', () => {
+        expect(() => new AggregatedPriceService({ symbol: 'btc', mode: 'twap' as any })).toThrow('twap');
+    });
+});
@@ -0,0 +1,31 @@
+import { BINANCE_ADAPTER, BITSTAMP_ADAPTER, COINBASE_ADAPTER, FX_KRAKEN_ADAPTER, getExchangeSymbols, KRAKEN_ADAPTER, OKX_ADAPTER } from '../../../src/libs/aggregated-price/exchange-adapters';
+
+describe('ExchangeAdapters', () => {
+    const eth = getExchangeSymbols('ETH');
+
+    it('按币种生成订阅消息', () => {
+        expect(BINANCE_ADAPTER.buildSubscribeMessage(eth)).toEqual({ method: 'SUBSCRIBE', params: ['ethusdt@bookTicker'], id: 1 });
+        expect(OKX_ADAPTER.buildSubscribeMessage(eth)).toEqual({ op: 'subscribe', args: [{ channel: 'tickers', instId: 'ETH-USDT' }] });
+        expect(BITSTAMP_ADAPTER.buildSubscribeMessage(eth)).toEqual({ event: 'bts:subscribe', data: { channel: 'live_trades_ethusd' } });
+        // 汇率源与币种无关
+        expect(FX_KRAKEN_ADAPTER.buildSubscribeMessage(eth)).toMatchObject({ pair: ['USDT/USD'] });
+    });
+
+    it('解析各交易所推送的中间价', () => {
+        expect(BINANCE_ADAPTER.parseMessage({ b: '100', a: '102' })).toBe(101);
+        expect(OKX_ADAPTER.parseMessage({ arg: { channel: 'tickers' }, data: [{ bidPx: '100', askPx: '101' }] })).toBe(100.5);
+        expect(COINBASE_ADAPTER.parseMessage({ best_bid: '99', best_ask: '101' })).toBe(100);
+        expect(KRAKEN_ADAPTER.parseMessage([1, { b: ['100', '1'], a: ['104', '1'] }, 'ticker', 'ETH/USD'])).toBe(102);
+        expect(BITSTAMP_ADAPTER.parseMessage({ event: 'trade', data: { price: 100.5 } })).toBe(100.5);
+    });
+
+    it('非价格消息返回 0', () => {
+        expect(BINANCE_ADAPTER.parseMessage({ result: null, id: 1 })).toBe(0);
+        expect(KRAKEN_ADAPTER.parseMessage({ event: 'heartbeat' })).toBe(0);
+        expect(BITSTAMP_ADAPTER.parseMessage({ event: 'bts:subscription_succeeded' })).toBe(0);
+    });
+
+    it('未知币种报错', () => {
+        expect(() => getExchangeSymbols('doge')).toThrow('doge');
+    });
+});
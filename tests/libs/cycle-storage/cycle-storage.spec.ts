@@ -0,0 +1,136 @@
+import * as Fs from 'fs';
+import * as Os from 'os';
+import * as Path from 'path';
+import { ClickHouseClient } from '@clickhouse/client';
+import { CLICKHOUSE_TABLES, ClickHouseCycleStorage } from '../../../src/libs/cycle-storage/clickhouse-cycle-storage';
+import { CycleRecorder } from '../../../src/libs/cycle-storage/cycle-recorder';
+import { CycleData } from '../../../src/libs/cycle-storage/interfaces';
+import { JsonCycleStorage } from '../../../src/libs/cycle-storage/json-cycle-storage';
+import { JsonlCycleEventSink } from '../../../src/libs/cycle-storage/jsonl-cycle-event-sink';
+import { MemoryCycleEventSink } from '../../../src/libs/cycle-storage/memory-cycle-event-sink';
+
+const START = 1769385600;
+const SLUG = `btc-updown-15m-${START}`;
+
+function cycleData(): CycleData {
+    return {
+        slug: SLUG,
+        priceRecords: [{ timestamp: START * 1000 + 2000, Up: 0.52, Down: 0.49 }],
+        btcPrices: [{ timestamp: START * 1000 + 1000, price: 100010 }, { timestamp: START * 1000, price: 100000 }],
+        btcAggregatedPrices: [{ timestamp: START * 1000 + 500, price: 100005 }],
+        aggregatedModePrices: [{ timestamp: START * 1000 + 500, modePrices: { median: 100005, vwap: 100006, hybrid: null } }],
+        bidResults: [],
+        simulatedBidResults: [{ type: 'S37_MEAN_REVERSION_TAKE_PROFIT', outcome: 'Up', price: 0.5, shares: 2, timestamp: new Date(START * 1000 + 2000).toISOString() }],
+        priceToBeat: { price: 100000, source: 'LIVE_CHAINLINK', confirmed: true },
+        chainlinkTracking: null,
+    };
+}
+
+describe('CycleStorage', () => {
+    describe('JsonCycleStorage', () => {
+        let bidResultsDir: string;
+
+        beforeEach(() => {
+            bidResultsDir = Fs.mkdtempSync(Path.join(Os.tmpdir(), 'cycle-storage-'));
+        });
+
+        afterEach(() => {
+            Fs.rmSync(bidResultsDir, { recursive: true, force: true });
+        });
+
+        it('按 slug 写出各类 JSON 文件', async () => {
+            await new JsonCycleStorage(bidResultsDir).saveCycle(cycleData());
+
+            const read = (name: string) => JSON.parse(Fs.readFileSync(Path.join(bidResultsDir, `${SLUG}-${name}.json`), 'utf-8'));
+            expect(read('btc-prices')).toHaveLength(2);
+            expect(read('price-records')[0].Up).toBe(0.52);
+            expect(read('simulated-bid-results')[0].type).toBe('S37_MEAN_REVERSION_TAKE_PROFIT');
+            expect(read('chainlink-tracking')).toBeNull();
+        });
+    });
+
+    describe('JsonlCycleEventSink', () => {
+        let bidResultsDir: string;
+
+        beforeEach(() => {
+            bidResultsDir = Path.join(Fs.mkdtempSync(Path.join(Os.tmpdir(), 'cycle-events-')), 'bid-results');
+        });
+
+        afterEach(() => {
+            Fs.rmSync(Path.dirname(bidResultsDir), { recursive: true, force: true });
+        });
+
+        it('每个事件追加一行，首次写入时创建目录', async () => {
+            const sink = new JsonlCycleEventSink(bidResultsDir);
+            expect(Fs.existsSync(bidResultsDir)).toBe(false);
+
+            sink.write({ type: 'tick', slug: SLUG, timestamp: START * 1000, source: 'chainlink', data: { price: 100000 } });
+            sink.write({ type: 'signal', slug: SLUG, timestamp: START * 1000 + 1000, strategy: 'S31_INVERT', outcome: 'Up' });
+            await sink.close();
+
+            const lines = Fs.readFileSync(Path.join(bidResultsDir, `${SLUG}-events.jsonl`), 'utf-8').trim().split('\n');
+            expect(lines.map((line) => JSON.parse(line).type)).toEqual(['tick', 'signal']);
+        });
+    });
+
+    describe('CycleRecorder', () => {
+        it('setSlug 之前的事件丢弃，之后的事件带上当前周期 slug', () => {
+            const sink = new MemoryCycleEventSink();
+            const recorder = new CycleRecorder(sink);
+
+            recorder.recordTick('chainlink', START * 1000 - 1000, { price: 99990 });
+            recorder.setSlug(SLUG);
+            recorder.recordTick('chainlink', START * 1000, { price: 100000 });
+
+            expect(sink.getEvents()).toEqual([
+                { type: 'tick', slug: SLUG, timestamp: START * 1000, source: 'chainlink', data: { price: 100000 } },
+            ]);
+        });
+    });
+
+    describe('ClickHouseCycleStorage', () => {
+        let insert: jest.Mock;
+        let storage: ClickHouseCycleStorage;
+
+        beforeEach(() => {
+            insert = jest.fn().mockResolvedValue({});
+            const client = { insert, close: jest.fn().mockResolvedValue(undefined) } as unknown as ClickHouseClient;
+            storage = new ClickHouseCycleStorage({ client, flushIntervalMs: 60 * 60 * 1000 });
+        });
+
+        afterEach(async () => {
+            await storage.close();
+        });
+
+        it('saveCycle 只缓冲，flush 时按表批量写入', async () => {
+            await storage.saveCycle(cycleData());
+            expect(insert).not.toHaveBeenCalled();
+
+            await storage.flush();
+            const tables = insert.mock.calls.map(([params]) => params.table);
+            expect(tables).toEqual([
+                CLICKHOUSE_TABLES.cycles,
+                CLICKHOUSE_TABLES.priceRecords,
+                CLICKHOUSE_TABLES.chainlinkPrices,
+                CLICKHOUSE_TABLES.aggregatedPrices,
+                CLICKHOUSE_TABLES.simulatedBids,
+            ]);
+
+            const aggregated = insert.mock.calls.find(([params]) => params.table === CLICKHOUSE_TABLES.aggregatedPrices)[0];
+            expect(aggregated.values).toEqual([{ slug: SLUG, timestamp: START * 1000 + 500, price: 100005, median_price: 100005, vwap_price: 100006, hybrid_price: null }]);
+        });
+
+        it('写入失败的行保留到下一次 flush', async () => {
+            jest.spyOn(console, 'error').mockImplementation(() => {});
+            insert.mockRejectedValueOnce(new Error('connection refused'));
+
+            await storage.saveCycle(cycleData());
+            await storage.flush();
+            insert.mockClear();
+
+            await storage.flush();
+            expect(insert).toHaveBeenCalledTimes(1);
+            expect(insert.mock.calls[0][0]).toMatchObject({ table: CLICKHOUSE_TABLES.cycles, format: 'JSONEachRow' });
+        });
+    });
+});
@@ -0,0 +1,31 @@
+import { BookConsistencyChecker } from '../../../src/libs/polymarket-order-book/book-consistency-checker';
+import { IPriceMap } from '../../../src/libs/polymarket-order-book/interfaces';
+
+const priceMap = (bids: [string, string][], asks: [string, string][]): IPriceMap => ({ bids: new Map(bids), asks: new Map(asks) });
+
+describe('BookConsistencyChecker', () => {
+    it('价格按数值比较，反转得到的 4 位小数与实际价格一致', () => {
+        const report = BookConsistencyChecker.compare(
+            priceMap([['0.4800', '100']], [['0.5200', '50']]),
+            priceMap([['0.48', '100']], [['0.52', '50'], ['0.60', '0']]),
+        );
+
+        expect(report.consistent).toBe(true);
+        expect(report.mismatches).toEqual([]);
+    });
+
+    it('报告 size 不一致和单边缺失的档位', () => {
+        const report = BookConsistencyChecker.compare(
+            priceMap([['0.4800', '100']], [['0.5200', '50']]),
+            priceMap([['0.48', '90']], [['0.51', '10'], ['0.52', '50']]),
+        );
+
+        expect(report.consistent).toBe(false);
+        expect(report.syntheticBestAsk).toBe(0.52);
+        expect(report.actualBestAsk).toBe(0.51);
+        expect(report.mismatches).toEqual([
+            { side: 'bid', price: '0.4800', syntheticSize: 100, actualSize: 90 },
+            { side: 'ask', price: '0.5100', syntheticSize: 0, actualSize: 10 },
+        ]);
+    });
+});
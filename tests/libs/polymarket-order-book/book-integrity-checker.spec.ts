@@ -0,0 +1,106 @@
+import '../../helpers/mock-clob-client';
+import { Side } from '@polymarket/clob-client';
+import { BookIntegrityChecker } from '../../../src/libs/polymarket-order-book/book-integrity-checker';
+import { OrderBookManager } from '../../../src/libs/polymarket-order-book/order-book-manager';
+import { BOOK, createBook, CYCLE_START_MS, MARKET } from '../../helpers/order-book-fixtures';
+
+const priceChange = (ts: number, change: object) => JSON.stringify({ event_type: 'price_change', timestamp: `${ts}`, price_changes: [{ asset_id: '1', ...change }] });
+
+describe('BookIntegrityChecker', () => {
+    it('按 clob-client 算法计算快照 hash', () => {
+        // 期望值由 clob-client generateOrderBookSummaryHash 对同一 summary 生成
+        const summary = {
+            market: '0x1', asset_id: '1', timestamp: `${CYCLE_START_MS}`, hash: '',
+            bids: [{ price: '0.48', size: '100' }], asks: [{ price: '0.52', size: '100' }],
+            min_order_size: '5', tick_size: '0.01', neg_risk: false,
+        };
+        const hash = '76e3efa87caed196dc1ae831f89b80b81e668bb9';
+
+        expect(BookIntegrityChecker.computeHash(summary)).toBe(hash);
+        expect(BookIntegrityChecker.verifyHash({ ...summary, hash })).toBe(true);
+        expect(BookIntegrityChecker.verifyHash({ ...summary, hash, bids: [] })).toBe(false);
+    });
+
+    it('服务端推送的空盘口最优价视为 null', () => {
+        const reported = BookIntegrityChecker.getReportedBestPrices({ price_changes: [{ asset_id: '1', best_bid: '0', best_ask: '0.52' }] });
+        expect(reported.get('1')).toEqual({ bestBid: null, bestAsk: 0.52 });
+    });
+});
+
+describe('OrderBookManager 完整性检查', () => {
+    let manager: OrderBookManager;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        manager.destroy();
+        jest.restoreAllMocks();
+    });
+
+    it('最优价与推送不一致时从 REST 重新同步，期间的消息在快照之后重放', async () => {
+        let resolveBook: (book: any) => void;
+        const fetchBook = jest.fn(() => new Promise((resolve) => (resolveBook = resolve)));
+        manager = new OrderBookManager(MARKET, { fetchBook });
+        manager.handleMessage(JSON.stringify(BOOK));
+
+        // 本地缺失了 0.50 的卖单
+        manager.handleMessage(priceChange(CYCLE_START_MS + 1000, { price: '0.51', size: '10', side: 'SELL', best_bid: '0.48', best_ask: '0.50' }));
+        expect(fetchBook).toHaveBeenCalledWith('1');
+
+        manager.handleMessage(priceChange(CYCLE_START_MS + 1500, { price: '0.49', size: '5', side: 'SELL', best_bid: '0.48', best_ask: '0.49' }));
+        manager.handleMessage(priceChange(CYCLE_START_MS + 3000, { price: '0.47', size: '5', side: 'SELL', best_bid: '0.46', best_ask: '0.47' }));
+
+        resolveBook({ market: '0x1', asset_id: '1', timestamp: `${CYCLE_START_MS + 2000}`, bids: [{ price: '0.46', size: '100' }], asks: [{ price: '0.50', size: '20' }] });
+        await new Promise((resolve) => setImmediate(resolve));
+
+        // CYCLE_START_MS + 1500 早于 REST 快照被丢弃，CYCLE_START_MS + 3000 在快照之后应用
+        expect(manager.getOrderBookSnapshotByTokenId('1', Side.BUY)).toEqual([{ price: '0.50', size: '20' }, { price: '0.47', size: '5' }]);
+        expect(manager.getIntegrityStats()).toMatchObject({ BEST_PRICE_MISMATCH: 1, STALE_DELTA: 1, RESYNC: 1, RESYNC_FAILED: 0 });
+    });
+
+    it('REST 快照 hash 不一致时不应用，等待 WebSocket 快照', async () => {
+        const fetchBook = jest.fn().mockResolvedValue({ asset_id: '1', timestamp: `${CYCLE_START_MS + 2000}`, hash: 'bad', bids: [{ price: '0.46', size: '100' }], asks: [] });
+        manager = new OrderBookManager(MARKET, { fetchBook });
+        manager.handleMessage(JSON.stringify(BOOK));
+
+        manager.handleMessage(priceChange(CYCLE_START_MS + 1000, { price: '0.47', size: '10', side: 'SELL' }));
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(fetchBook).toHaveBeenCalledWith('1');
+        expect(manager.getIntegrityStats()).toMatchObject({ CROSSED_BOOK: 1, HASH_MISMATCH: 1, RESYNC: 1, RESYNC_FAILED: 1 });
+        expect(manager.isBookReady()).toBe(false);
+    });
+
+    it('交叉盘口记录问题，REST 失败时等待 WebSocket 快照', async () => {
+        const events: any[] = [];
+        manager = new OrderBookManager(MARKET, { fetchBook: () => Promise.reject(new Error('timeout')), onIntegrityEvent: (event) => events.push(event) });
+        manager.handleMessage(JSON.stringify(BOOK));
+
+        manager.handleMessage(priceChange(CYCLE_START_MS + 1000, { price: '0.47', size: '10', side: 'SELL' }));
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(events.map((event) => event.issue)).toEqual(['CROSSED_BOOK']);
+        expect(manager.getIntegrityStats()).toMatchObject({ CROSSED_BOOK: 1, RESYNC: 1, RESYNC_FAILED: 1 });
+        expect(manager.isBookReady()).toBe(false);
+    });
+
+    it('REST 失败时只重新订阅出问题的资产', async () => {
+        const channel = { isConnected: () => true, subscribe: jest.fn(), unsubscribe: jest.fn() };
+        manager = new OrderBookManager(MARKET, { channel, subscribeBothOutcomes: true, fetchBook: () => Promise.reject(new Error('timeout')) });
+        manager.handleMessage(JSON.stringify([BOOK, createBook('2')]));
+
+        manager.handleMessage(priceChange(CYCLE_START_MS + 1000, { price: '0.47', size: '10', side: 'SELL' }));
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(channel.subscribe).toHaveBeenLastCalledWith(['1']);
+        expect(manager.isBookReady()).toBe(false);
+
+        // 资产 2 的订单簿不需要重新等待快照
+        manager.handleMessage(JSON.stringify({ ...BOOK, timestamp: `${CYCLE_START_MS + 2000}` }));
+        expect(manager.isBookReady()).toBe(true);
+        expect(manager.getOrderBookSnapshotByTokenId('2', Side.BUY)).toEqual([{ price: '0.52', size: '100' }]);
+    });
+});
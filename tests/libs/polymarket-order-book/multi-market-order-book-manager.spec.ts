@@ -0,0 +1,73 @@
+import '../../helpers/mock-clob-client';
+import { Side } from '@polymarket/clob-client';
+import { IOrderBookEvent } from '../../../src/libs/polymarket-order-book/interfaces';
+import { MultiMarketOrderBookManager } from '../../../src/libs/polymarket-order-book/multi-market-order-book-manager';
+import { MockWebSocketServer } from '../../helpers/mock-websocket-server';
+import { createBook, createMarket, CYCLE_START, waitFor } from '../../helpers/order-book-fixtures';
+
+describe('MultiMarketOrderBookManager', () => {
+    let server: MockWebSocketServer;
+    let hub: MultiMarketOrderBookManager;
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        server = await MockWebSocketServer.start();
+        hub = new MultiMarketOrderBookManager({ transport: server.transport, reconnectBaseDelayMs: 10 });
+    });
+
+    afterEach(async () => {
+        hub.destroy();
+        await server.stop();
+        jest.restoreAllMocks();
+    });
+
+    it('一个连接上动态订阅多个市场，消息按资产分发', async () => {
+        const current = hub.addMarket(createMarket(CYCLE_START, ['1', '2']));
+        const currentEvents: IOrderBookEvent[] = [];
+        current.events$.subscribe((event) => currentEvents.push(event));
+        current.initialize();
+        hub.connect();
+
+        const client = await server.waitForClient();
+        await server.waitForMessages(client);
+
+        // 下一个周期的市场提前订阅，没有订阅 events$ 也会维护订单簿
+        const next = hub.addMarket(createMarket(CYCLE_START + 900, ['3', '4']));
+        expect(hub.addMarket(createMarket(CYCLE_START + 900, ['3', '4']))).toBe(next);
+
+        const received = await server.waitForMessages(client, 2);
+        expect(received.map((message) => JSON.parse(message))).toEqual([
+            { assets_ids: ['1'], type: 'market' },
+            { assets_ids: ['3'], operation: 'subscribe' },
+        ]);
+
+        server.send(client, createBook('1', { ask: '0.55' }), createBook('3', { ask: '0.60' }));
+        await waitFor(() => current.isBookReady() && next.isBookReady());
+
+        expect(current.getOrderBookSnapshotByTokenId('1', Side.BUY)).toEqual([{ price: '0.55', size: '100' }]);
+        expect(next.getOrderBookSnapshotByTokenId('3', Side.BUY)).toEqual([{ price: '0.60', size: '100' }]);
+        expect(currentEvents.map((event) => event.assetId)).toEqual(['1', '1']);
+        expect(server.clients).toHaveLength(1);
+    });
+
+    it('移除市场时取消订阅，重连后重新订阅剩余市场', async () => {
+        hub.addMarket(createMarket(CYCLE_START, ['1', '2']));
+        const next = hub.addMarket(createMarket(CYCLE_START + 900, ['3', '4']));
+        hub.connect();
+
+        const client = await server.waitForClient();
+        await server.waitForMessages(client, 2);
+
+        hub.removeMarket(`btc-updown-15m-${CYCLE_START}`);
+        const received = await server.waitForMessages(client, 3);
+        expect(JSON.parse(received[2])).toEqual({ assets_ids: ['1'], operation: 'unsubscribe' });
+        expect(hub.getMarketSlugs()).toEqual([`btc-updown-15m-${CYCLE_START + 900}`]);
+
+        client.socket.terminate();
+        await waitFor(() => server.clients.length === 2);
+        const [resubscribe] = await server.waitForMessages(server.clients[1]);
+        expect(JSON.parse(resubscribe)).toEqual({ assets_ids: ['3'], type: 'market' });
+        expect(next.isBookReady()).toBe(false);
+    });
+});
@@ -0,0 +1,152 @@
+import '../../helpers/mock-clob-client';
+import { Side } from '@polymarket/clob-client';
+import { IOrderBookEvent } from '../../../src/libs/polymarket-order-book/interfaces';
+import { OrderBookManager } from '../../../src/libs/polymarket-order-book/order-book-manager';
+import { WsMessageReplayer } from '../../../src/libs/polymarket-order-book/ws-message-replayer';
+import { ConnectionState } from '../../../src/libs/websocket-connection';
+import { MockWebSocketServer } from '../../helpers/mock-websocket-server';
+import { BOOK, createBook, CYCLE_START_MS, MARKET, waitFor } from '../../helpers/order-book-fixtures';
+
+const replay = (manager: OrderBookManager, ...messages: object[]) =>
+    manager.replay(new WsMessageReplayer(messages.map((message, i) => ({ receivedAt: CYCLE_START_MS + i, message: JSON.stringify(message) })), { speed: 0 }));
+
+describe('OrderBookManager', () => {
+    let server: MockWebSocketServer;
+    let orderBookManager: OrderBookManager;
+    let states: ConnectionState[];
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        server = await MockWebSocketServer.start();
+        states = [];
+        orderBookManager = new OrderBookManager(MARKET, {
+            transport: server.transport,
+            reconnectBaseDelayMs: 10,
+            onStateChange: (state) => states.push(state),
+        });
+    });
+
+    afterEach(async () => {
+        orderBookManager.destroy();
+        await server.stop();
+        jest.restoreAllMocks();
+    });
+
+    it('订阅 CLOB market 频道并按推送构建订单簿', async () => {
+        const events: IOrderBookEvent[] = [];
+        orderBookManager.events$.subscribe((event) => events.push(event));
+        orderBookManager.initialize();
+
+        const client = await server.waitForClient('wss://ws-subscriptions-clob.polymarket.com/ws/market');
+        const [subscribe] = await server.waitForMessages(client);
+        expect(JSON.parse(subscribe)).toEqual({ assets_ids: ['1'], type: 'market' });
+
+        server.send(client, BOOK);
+        await waitFor(() => events.length > 0);
+
+        expect(orderBookManager.getOrderBookSnapshotByTokenId('2', Side.BUY)).toEqual([{ price: '0.5200', size: '100' }]);
+    });
+
+    it('重连后重新订阅，新快照到达前订单簿不可用且不通知上层', async () => {
+        const events: IOrderBookEvent[] = [];
+        orderBookManager.events$.subscribe((event) => events.push(event));
+        orderBookManager.initialize();
+
+        const client = await server.waitForClient();
+        await server.waitForMessages(client);
+        server.send(client, BOOK);
+        await waitFor(() => orderBookManager.isBookReady());
+
+        client.socket.terminate();
+        await waitFor(() => server.clients.length === 2);
+        const reconnected = server.clients[1];
+        await server.waitForMessages(reconnected);
+        expect(states).toEqual([ConnectionState.CONNECTING, ConnectionState.CONNECTED, ConnectionState.RECONNECTING, ConnectionState.CONNECTED]);
+        expect(orderBookManager.isBookReady()).toBe(false);
+        expect(() => orderBookManager.getOrderBookSnapshotByTokenId('1', Side.BUY)).toThrow('awaiting snapshot');
+
+        // 快照之前的增量基于未知状态，丢弃
+        server.send(reconnected, { event_type: 'price_change', timestamp: `${CYCLE_START_MS + 2000}`, price_changes: [{ asset_id: '1', price: '0.50', size: '10', side: 'SELL' }] });
+        server.send(reconnected, { ...BOOK, timestamp: `${CYCLE_START_MS + 3000}`, asks: [{ price: '0.53', size: '20' }] });
+        await waitFor(() => orderBookManager.isBookReady());
+
+        expect(events.map((event) => event.type)).toEqual(['book', 'best-price', 'book', 'best-price']);
+        expect(orderBookManager.getOrderBookSnapshotByTokenId('1', Side.BUY)).toEqual([{ price: '0.53', size: '20' }]);
+    });
+
+    it('订阅后未收到快照时重新订阅', async () => {
+        orderBookManager.destroy();
+        orderBookManager = new OrderBookManager(MARKET, { transport: server.transport, snapshotTimeoutMs: 20 });
+        orderBookManager.initialize();
+
+        const client = await server.waitForClient();
+        const received = await server.waitForMessages(client, 2);
+        expect(received[1]).toBe(received[0]);
+    });
+
+    it('events$ 发布投影订单簿、最优价变化、最新成交和 tick size 变化', async () => {
+        const manager = new OrderBookManager(MARKET);
+        const events: IOrderBookEvent[] = [];
+        let completed = false;
+        manager.events$.subscribe({ next: (event) => events.push(event), complete: () => completed = true });
+
+        await replay(
+            manager,
+            BOOK,
+            // 不改变最优价，只发布订单簿
+            { event_type: 'price_change', timestamp: `${CYCLE_START_MS + 1000}`, price_changes: [{ asset_id: '1', price: '0.45', size: '10', side: 'BUY' }] },
+            { event_type: 'price_change', timestamp: `${CYCLE_START_MS + 2000}`, price_changes: [{ asset_id: '1', price: '0.51', size: '10', side: 'SELL' }] },
+            { event_type: 'last_trade_price', asset_id: '1', price: '0.51', side: 'BUY' },
+            { event_type: 'tick_size_change', asset_id: '1', new_tick_size: '0.001', old_tick_size: '0.01' },
+        );
+        // 第二个 outcome 未订阅，最优价由反转得到
+        expect(manager.getBestPrices('1')).toEqual({ bestBid: 0.48, bestAsk: 0.51 });
+        expect(manager.getBestPrices('2')).toEqual({ bestBid: 0.49, bestAsk: 0.52 });
+        manager.destroy();
+
+        expect(events.map((event) => event.type)).toEqual(['book', 'best-price', 'book', 'book', 'best-price', 'last-trade', 'tick-size']);
+        expect(events[0]).toMatchObject({ assetId: '1', ts: CYCLE_START_MS, book: { bestPrices: { '~zero': { buy: '0.52', sell: '0.48' } } } });
+        expect(events.filter((event) => event.type === 'best-price')).toEqual([
+            { type: 'best-price', assetId: '1', bestBid: 0.48, bestAsk: 0.52, ts: CYCLE_START_MS },
+            { type: 'best-price', assetId: '1', bestBid: 0.48, bestAsk: 0.51, ts: CYCLE_START_MS + 2000 },
+        ]);
+        expect(events.slice(-2)).toEqual([
+            { type: 'last-trade', assetId: '1', price: 0.51, side: 'BUY', ts: expect.any(Number) },
+            { type: 'tick-size', assetId: '1', tickSize: 0.001, ts: expect.any(Number) },
+        ]);
+        expect(completed).toBe(true);
+    });
+
+    describe('subscribeBothOutcomes', () => {
+        it('两个 outcome 都使用实际订单簿，同一条 price_change 按资产更新', async () => {
+            const manager = new OrderBookManager(MARKET, { subscribeBothOutcomes: true });
+            await replay(manager, [BOOK, { event_type: 'book', asset_id: '2', timestamp: `${CYCLE_START_MS}`, bids: [{ price: '0.47', size: '80' }], asks: [{ price: '0.52', size: '100' }] }], {
+                event_type: 'price_change',
+                timestamp: `${CYCLE_START_MS + 1000}`,
+                price_changes: [
+                    { asset_id: '1', price: '0.51', size: '30', side: 'SELL' },
+                    { asset_id: '2', price: '0.50', size: '40', side: 'SELL' },
+                ],
+            });
+
+            expect(manager.getOrderBookSnapshotByTokenId('1', Side.BUY)).toEqual([{ price: '0.52', size: '100' }, { price: '0.51', size: '30' }]);
+            expect(manager.getOrderBookSnapshotByTokenId('2', Side.BUY)).toEqual([{ price: '0.52', size: '100' }, { price: '0.50', size: '40' }]);
+        });
+
+        it('对比反转的 YES 订单簿与实际 NO 订单簿', async () => {
+            const manager = new OrderBookManager(MARKET, { subscribeBothOutcomes: true });
+            expect(manager.checkConsistency()).toBeNull();
+
+            await replay(manager, BOOK, createBook('2'));
+            expect(manager.checkConsistency().consistent).toBe(true);
+
+            await replay(manager, { event_type: 'price_change', timestamp: `${CYCLE_START_MS + 1000}`, price_changes: [{ asset_id: '2', price: '0.50', size: '40', side: 'SELL' }] });
+            expect(manager.checkConsistency().mismatches).toEqual([{ side: 'ask', price: '0.5000', syntheticSize: 0, actualSize: 40 }]);
+        });
+
+        it('默认只订阅第一个 outcome，不做一致性检查', () => {
+            expect(new OrderBookManager(MARKET).checkConsistency()).toBeNull();
+        });
+    });
+});
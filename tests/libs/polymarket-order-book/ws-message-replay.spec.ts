@@ -0,0 +1,70 @@
+import '../../helpers/mock-clob-client';
+import * as Fs from 'fs';
+import * as Os from 'os';
+import * as Path from 'path';
+import { Side } from '@polymarket/clob-client';
+import { OrderBookManager } from '../../../src/libs/polymarket-order-book/order-book-manager';
+import { WsMessageRecorder } from '../../../src/libs/polymarket-order-book/ws-message-recorder';
+import { loadWsRecording, WsMessageReplayer } from '../../../src/libs/polymarket-order-book/ws-message-replayer';
+import { BOOK, CYCLE_START_MS, MARKET } from '../../helpers/order-book-fixtures';
+
+const MESSAGES = [
+    { receivedAt: CYCLE_START_MS, message: JSON.stringify(BOOK) },
+    { receivedAt: CYCLE_START_MS + 1000, message: 'PONG' },
+    { receivedAt: CYCLE_START_MS + 2000, message: JSON.stringify({ event_type: 'price_change', timestamp: `${CYCLE_START_MS + 2000}`, price_changes: [{ asset_id: '1', price: '0.51', size: '50', side: 'SELL' }] }) },
+];
+
+describe('WebSocket 消息录制与回放', () => {
+    let recordDir: string;
+
+    beforeEach(() => {
+        recordDir = Path.join(Fs.mkdtempSync(Path.join(Os.tmpdir(), 'ws-recording-')), 'order-book');
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        Fs.rmSync(Path.dirname(recordDir), { recursive: true, force: true });
+    });
+
+    it('按大小滚动文件，读取目录时按时间顺序合并', async () => {
+        const recorder = new WsMessageRecorder({ dir: recordDir, name: 'BTC15MExecutor', maxFileBytes: 1 });
+        for (const { receivedAt, message } of MESSAGES) {
+            recorder.record(message, receivedAt);
+        }
+        await recorder.close();
+
+        expect(Fs.readdirSync(recordDir)).toHaveLength(3);
+        expect(loadWsRecording(recordDir)).toEqual(MESSAGES);
+    });
+
+    it('回放录制消息重建订单簿并发布订单簿事件', async () => {
+        const orderBookManager = new OrderBookManager(MARKET);
+        const onEvent = jest.fn();
+        orderBookManager.events$.subscribe(onEvent);
+
+        const replayed = await orderBookManager.replay(new WsMessageReplayer(MESSAGES, { speed: 0 }));
+        orderBookManager.destroy();
+
+        expect(replayed).toBe(3);
+        expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual(['book', 'best-price', 'book', 'best-price']);
+        expect(orderBookManager.getOrderBookSnapshotByTokenId('1', Side.BUY)).toEqual([
+            { price: '0.52', size: '100' },
+            { price: '0.51', size: '50' },
+        ]);
+    });
+
+    it('按倍速等待录制时的接收间隔', async () => {
+        jest.useFakeTimers();
+        const onMessage = jest.fn();
+        const replaying = new WsMessageReplayer(MESSAGES, { speed: 2 }).replay(onMessage);
+
+        await jest.advanceTimersByTimeAsync(499);
+        expect(onMessage).toHaveBeenCalledTimes(1);
+
+        await jest.advanceTimersByTimeAsync(1);
+        expect(onMessage).toHaveBeenCalledTimes(2);
+
+        await jest.advanceTimersByTimeAsync(500);
+        expect(await replaying).toBe(3);
+    });
+});
@@ -0,0 +1,88 @@
+import { AggregatedPriceService } from '../../src/libs/aggregated-price/aggregated-price-service';
+import { AggregatedPriceData } from '../../src/libs/aggregated-price/interfaces';
+import { ConnectionState, setWebSocketTransport, WebSocketConnection } from '../../src/libs/websocket-connection';
+import { MockWebSocketClient, MockWebSocketServer } from '../helpers/mock-websocket-server';
+
+async function waitFor(predicate: () => boolean, timeoutMs: number = 2000) {
+    const deadline = Date.now() + timeoutMs;
+    while (!predicate()) {
+        if (Date.now() > deadline) {
+            throw new Error('waitFor timeout');
+        }
+        await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+}
+
+describe('WebSocketConnection transport', () => {
+    let server: MockWebSocketServer;
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        server = await MockWebSocketServer.start();
+    });
+
+    afterEach(async () => {
+        setWebSocketTransport(null);
+        await server.stop();
+        jest.restoreAllMocks();
+    });
+
+    it('通过 transport 连接本地 mock 服务，断开后自动重连', async () => {
+        const messages: string[] = [];
+        const connection = new WebSocketConnection({
+            url: 'wss://ws-live-data.polymarket.com/',
+            transport: server.transport,
+            reconnectBaseDelayMs: 10,
+            reconnectMaxDelayMs: 20,
+            onOpen: () => connection.sendMessage({ action: 'subscribe' }),
+            onMessage: (message) => messages.push(message),
+        });
+        connection.connect();
+
+        const client = await server.waitForClient('wss://ws-live-data.polymarket.com');
+        expect(await server.waitForMessages(client)).toEqual([JSON.stringify({ action: 'subscribe' })]);
+
+        server.send(client, 'PONG', { topic: 'crypto_prices_chainlink' });
+        await waitFor(() => messages.length > 0);
+        expect(messages).toEqual([JSON.stringify({ topic: 'crypto_prices_chainlink' })]);
+
+        client.socket.terminate();
+        await waitFor(() => server.clients.length === 2 && connection.isConnected());
+        connection.destroy();
+        expect(connection.getState()).toBe(ConnectionState.CLOSED);
+    });
+
+    it('全局 transport 让所有交易所数据源回放 fixture', async () => {
+        setWebSocketTransport(server.transport);
+        const updates: AggregatedPriceData[] = [];
+        const service = new AggregatedPriceService({ symbol: 'btc', silent: true, onPriceUpdate: (data) => updates.push(data) });
+        service.start();
+
+        // 两个 Kraken 源连接同一个 url，按订阅的交易对区分
+        const fixture = (client: MockWebSocketClient): object => {
+            if (client.target.includes('binance')) return { b: '100010', a: '100010' };
+            if (client.target.includes('okx')) return { arg: { channel: 'tickers' }, data: [{ bidPx: '100020', askPx: '100020' }] };
+            if (client.target.includes('coinbase')) return { best_bid: '100000', best_ask: '100000' };
+            if (client.target.includes('bitstamp')) return { event: 'trade', data: { price: 100020 } };
+            return client.received[0].includes('USDT/USD')
+                ? [1, { b: ['1', '1'], a: ['1', '1'] }, 'ticker', 'USDT/USD']
+                : [2, { b: ['100010', '1'], a: ['100010', '1'] }, 'ticker', 'XBT/USD'];
+        };
+
+        try {
+            await waitFor(() => server.clients.length === 6);
+            for (const client of server.clients) {
+                await server.waitForMessages(client);
+                server.send(client, fixture(client));
+            }
+
+            await waitFor(() => service.getPriceData().contributingSources.length === 5);
+        } finally {
+            service.stop();
+        }
+
+        expect(service.getPriceData().contributingSources.sort()).toEqual(['BINANCE', 'BITSTAMP', 'COINBASE', 'KRAKEN', 'OKX']);
+        expect(updates[updates.length - 1].price).toBe(100010);
+    });
+});